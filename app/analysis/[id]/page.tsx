@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState, type ComponentProps } from 'react';
+import { useParams } from 'next/navigation';
+import { AnalyticsChart } from '@/components/ui/analytics-chart';
+import { QueryResultsTable } from '@/components/ui/query-results-table';
+import { fetchAnalysis, rerunAnalysis, type AnalysisRunResponse, type SavedAnalysisResponse } from '@/lib/utils/analyses';
+
+type ChartConfig = ComponentProps<typeof AnalyticsChart>['chartConfig'];
+
+export default function SavedAnalysisPage() {
+  const { id } = useParams<{ id: string }>();
+  const [analysis, setAnalysis] = useState<SavedAnalysisResponse | null>(null);
+  const [liveRun, setLiveRun] = useState<AnalysisRunResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    fetchAnalysis(id)
+      .then(setAnalysis)
+      .catch(e => setError(e.message))
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  const handleRerun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setLiveRun(await rerunAnalysis(id));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64 space-x-2 text-blue-600">
+        <div className="animate-spin h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full"></div>
+        <span>Loading analysis...</span>
+      </div>
+    );
+  }
+
+  if (!analysis) {
+    return (
+      <div className="max-w-3xl mx-auto p-6">
+        <div className="p-4 bg-red-50 border border-red-200 rounded text-red-700">
+          {error || 'Analysis not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const results = liveRun?.results ?? analysis.results;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{analysis.title}</h1>
+          {analysis.question && <p className="text-gray-600 mt-1">“{analysis.question}”</p>}
+          <p className="text-xs text-gray-500 mt-1">
+            Saved {new Date(analysis.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex space-x-2 shrink-0">
+          <button
+            onClick={handleCopyLink}
+            className="px-3 py-2 text-sm border rounded hover:bg-gray-50"
+          >
+            {copied ? '✅ Copied' : '🔗 Copy link'}
+          </button>
+          <button
+            onClick={handleRerun}
+            disabled={running}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {running ? 'Running...' : '🔄 Re-run with current data'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>
+      )}
+
+      <div className={`p-3 rounded text-sm ${liveRun ? 'bg-green-50 border border-green-200 text-green-800' : 'bg-amber-50 border border-amber-200 text-amber-800'}`}>
+        {liveRun
+          ? `Showing live results from ${new Date(liveRun.ranAt).toLocaleString()}`
+          : `Showing the snapshot saved on ${new Date(analysis.createdAt).toLocaleDateString()}`}
+      </div>
+
+      {analysis.entityContext && (
+        <div className="text-sm text-gray-600">
+          <strong>Entities:</strong> {analysis.entityContext}
+        </div>
+      )}
+
+      {analysis.chartConfig && results.length > 0 && (
+        <AnalyticsChart chartConfig={analysis.chartConfig as unknown as ChartConfig} data={results} />
+      )}
+
+      <QueryResultsTable
+        key={liveRun?.ranAt ?? 'snapshot'}
+        initialResults={results}
+        nextCursor={liveRun?.nextCursor ?? null}
+      />
+
+      <details>
+        <summary className="text-sm text-gray-700 cursor-pointer hover:text-gray-900">
+          View SQL Query
+        </summary>
+        <pre className="mt-2 p-2 bg-gray-900 text-green-400 rounded text-xs overflow-x-auto">
+          {analysis.sqlQuery}
+        </pre>
+      </details>
+    </div>
+  );
+}
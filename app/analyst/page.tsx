@@ -3,25 +3,66 @@
 import { useChat } from '@ai-sdk/react';
 import { AnalyticsChart } from '@/components/ui/analytics-chart';
 import { InfoBoxes } from '@/components/ui/info-boxes';
-import { downloadCSVFromServer, formatEstimatedSize } from '@/lib/utils/csv';
+import { RepairHistory } from '@/components/ui/repair-history';
+import { QueryResultsTable } from '@/components/ui/query-results-table';
+import { LookupCandidateChips } from '@/components/ui/lookup-candidates';
+import { AnomalyResultsCard } from '@/components/ui/anomaly-results';
+import { DuplicatePaymentsCard } from '@/components/ui/duplicate-payments';
+import { downloadCSVFromServer, formatEstimatedSize, type CSVDownloadProgress } from '@/lib/utils/csv';
+import { saveAnalysis } from '@/lib/utils/analyses';
+import type { UIMessage } from 'ai';
+import type { EntityChoice, LookupCandidate, LookupResult } from '@/lib/tools/lookupCandidates';
 import { useState } from 'react';
 
 export default function Chat() {
-  const { messages, input, handleInputChange, handleSubmit, isLoading } = useChat({
+  const { messages, input, handleInputChange, handleSubmit, isLoading, addToolResult } = useChat({
     maxSteps: 50, // Enable multi-step tool usage
   });
 
   // Add state for download progress
   const [downloadingQueries, setDownloadingQueries] = useState<Set<string>>(new Set());
+  const [downloadProgress, setDownloadProgress] = useState<Record<string, CSVDownloadProgress>>({});
   
   // Add state to track if user has started interacting (hide info boxes)
   const [showInfoBoxes] = useState(true);
 
+  // Saved analysis per assistant message: its ID once saved, or an error
+  const [savedAnalyses, setSavedAnalyses] = useState<Record<string, { id?: string; saving?: boolean; error?: string }>>({});
+
+  // Collect the query, results, entities and chart of one answer into a saved analysis
+  const handleSaveAnalysis = async (message: UIMessage, messageIndex: number) => {
+    const completed = (message.toolInvocations ?? []).filter(invocation => invocation.state === 'result');
+    const execution = completed.filter(invocation => invocation.toolName === 'executeQuery' && !invocation.result.error).pop();
+    if (!execution || execution.state !== 'result') return;
+
+    const generation = completed.filter(invocation => invocation.toolName === 'generateAnalyticsQuery').pop();
+    const chart = completed.filter(invocation => invocation.toolName === 'generateChart').pop();
+    const question = messages.slice(0, messageIndex).filter(m => m.role === 'user').pop()?.content;
+
+    const title = window.prompt('Title for this analysis', question || 'Texas spending analysis');
+    if (!title) return;
+
+    setSavedAnalyses(prev => ({ ...prev, [message.id]: { saving: true } }));
+    try {
+      const analysis = await saveAnalysis({
+        title,
+        question,
+        sqlQuery: execution.result.executedQuery ?? execution.args.sqlQuery,
+        entityContext: generation?.state === 'result' ? generation.result.entityContext : undefined,
+        results: execution.result.results,
+        chartConfig: chart?.state === 'result' ? chart.result.chartConfig : null
+      });
+      setSavedAnalyses(prev => ({ ...prev, [message.id]: { id: analysis.id } }));
+    } catch (error) {
+      setSavedAnalyses(prev => ({ ...prev, [message.id]: { error: (error as Error).message } }));
+    }
+  };
+
   return (
     <div className="flex flex-col h-screen max-w-6xl mx-auto"> {/* Wider for charts */}
       {/* Enhanced Message Display */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map(message => (
+        {messages.map((message, messageIndex) => (
           <div key={message.id} className="space-y-2">
             <div className="font-medium">
               {message.role === 'user' ? '👤 You' : '🤖 Texas DOGE Assistant'}
@@ -86,23 +127,229 @@ export default function Chat() {
                 // Query Execution Tool Result
                 else if (toolName === 'executeQuery') {
                   const { result } = toolInvocation;
+
+                  if (result.error) {
+                    return (
+                      <div key={toolCallId} className="p-3 bg-red-50 border border-red-200 rounded">
+                        <div className="text-red-700 font-medium">Query Failed</div>
+                        <div className="text-sm text-red-600 mt-1">{result.error}</div>
+                        {result.costGate?.estimate && (
+                          <div className="text-xs text-red-500 mt-1">
+                            Planner estimate: {result.costGate.estimate.totalCost !== null
+                              ? `cost ${Math.round(result.costGate.estimate.totalCost).toLocaleString()}, `
+                              : ''}
+                            {result.costGate.estimate.scannedRows.toLocaleString()} rows scanned
+                          </div>
+                        )}
+                        {result.rejections?.length > 0 && (
+                          <ul className="mt-2 text-xs text-red-600 list-disc list-inside space-y-1">
+                            {result.rejections.map((rejection: { code: string; message: string; suggestion?: string }, i: number) => (
+                              <li key={i}>
+                                <code>{rejection.code}</code> {rejection.message}
+                                {rejection.suggestion && <span className="italic"> — {rejection.suggestion}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <RepairHistory attempts={result.repairAttempts} />
+                      </div>
+                    );
+                  }
+
                   return (
                     <div key={toolCallId} className="p-3 bg-blue-50 border border-blue-200 rounded">
                       <div className="text-blue-700 font-medium">Query Results</div>
                       <div className="text-sm text-blue-600 mt-1">
                         ✅ {result.rowCount} records retrieved
-                        {result.hasMoreResults && ' (limited to 1000)'}
+                        {result.truncated && (result.totalRows !== null
+                          ? ` (first ${result.limitApplied} of ${result.totalRows.toLocaleString()})`
+                          : ` (first ${result.limitApplied} - more rows available)`)}
+                        {!result.truncated && result.queryLimit !== null && result.rowCount === result.queryLimit && ` (query LIMIT ${result.queryLimit})`}
+                        {result.cache?.hit && (
+                          <span
+                            className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 rounded text-xs"
+                            title={`Cached at ${new Date(result.cache.cachedAt).toLocaleTimeString()}`}
+                          >
+                            ⚡ cached
+                          </span>
+                        )}
                       </div>
+                      {result.costGate?.decision === 'downgrade' && (
+                        <div className="text-xs text-blue-500 mt-1">
+                          📉 {result.costGate.reason}
+                        </div>
+                      )}
+                      {result.repairAttempts?.length > 0 && (
+                        <div className="text-xs text-blue-500 mt-1">
+                          🔧 Succeeded after {result.repairAttempts.length} automatic {result.repairAttempts.length === 1 ? 'repair' : 'repairs'}
+                        </div>
+                      )}
+                      <RepairHistory attempts={result.repairAttempts} />
+                      <QueryResultsTable
+                        initialResults={result.results}
+                        nextCursor={result.nextCursor ?? null}
+                        totalRows={result.totalRows}
+                      />
                     </div>
                   );
                 }
                 
                 // Entity Lookup Tool Results
                 else if (toolName.includes('Code')) {
+                  const result = toolInvocation.result as LookupResult & { agencyGroup?: { name: string; agencyCount: number } };
+                  return (
+                    <div key={toolCallId} className="p-3 bg-green-50 border border-green-200 rounded text-sm space-y-2">
+                      {result.agencyGroup ? (
+                        <div>
+                          🔍 <strong>Entity Lookup:</strong> {result.agencyGroup.name} group ({result.agencyGroup.agencyCount} agencies)
+                        </div>
+                      ) : result.candidates?.length > 0 ? (
+                        <>
+                          <div>
+                            🔍 <strong>Entity Lookup:</strong> {result.candidates.length === 1 ? 'Found' : `${result.candidates.length} candidates for`} {result.entityType}
+                          </div>
+                          <LookupCandidateChips candidates={result.candidates} />
+                        </>
+                      ) : (
+                        <div>🔍 <strong>Entity Lookup:</strong> {result.result}</div>
+                      )}
+                    </div>
+                  );
+                }
+
+                // Category ↔ comptroller object rollup
+                else if (toolName === 'getCategoryObjects') {
+                  const { result } = toolInvocation;
+                  return (
+                    <div key={toolCallId} className={`p-3 rounded text-sm border ${result.error ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200'}`}>
+                      🗂️ <strong>Object Rollup:</strong> {result.error ?? result.result}
+                    </div>
+                  );
+                }
+
+                // Peer-group outliers
+                else if (toolName === 'detectAnomalies') {
+                  const { result } = toolInvocation;
+                  if (result.error) {
+                    return (
+                      <div key={toolCallId} className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                        🚨 <strong>Anomaly Detection Failed:</strong> {result.error}
+                      </div>
+                    );
+                  }
+                  return (
+                    <div key={toolCallId} className="my-4">
+                      <AnomalyResultsCard
+                        summary={result.result}
+                        method={result.method}
+                        anomalies={result.anomalies}
+                        sqlQuery={result.sqlQuery}
+                      />
+                    </div>
+                  );
+                }
+
+                // Likely duplicate payment groups
+                else if (toolName === 'detectDuplicatePayments') {
+                  const { result } = toolInvocation;
+                  if (result.error) {
+                    return (
+                      <div key={toolCallId} className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                        👯 <strong>Duplicate Check Failed:</strong> {result.error}
+                      </div>
+                    );
+                  }
+                  return (
+                    <div key={toolCallId} className="my-4">
+                      <DuplicatePaymentsCard
+                        summary={result.result}
+                        groups={result.groups}
+                        exportQuery={result.exportQuery}
+                        filename={result.filename}
+                      />
+                    </div>
+                  );
+                }
+
+                // Vendor concentration with its chart
+                else if (toolName === 'analyzeVendorConcentration') {
+                  const { result } = toolInvocation;
+                  if (result.error) {
+                    return (
+                      <div key={toolCallId} className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                        🏢 <strong>Vendor Concentration Failed:</strong> {result.error}
+                      </div>
+                    );
+                  }
+                  return (
+                    <div key={toolCallId} className="my-4 space-y-2">
+                      <div className="p-3 bg-indigo-50 border border-indigo-200 rounded text-sm">
+                        🏢 <strong>Vendor Concentration:</strong> {result.result}
+                      </div>
+                      {result.chartConfig && (
+                        <AnalyticsChart chartConfig={result.chartConfig} data={result.chartData} />
+                      )}
+                      <QueryResultsTable initialResults={result.results} nextCursor={null} />
+                    </div>
+                  );
+                }
+
+                // Benford's law test with observed vs expected digits
+                else if (toolName === 'benfordAnalysis') {
                   const { result } = toolInvocation;
+                  if (result.error) {
+                    return (
+                      <div key={toolCallId} className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                        🔢 <strong>Benford Test Failed:</strong> {result.error}
+                      </div>
+                    );
+                  }
+                  return (
+                    <div key={toolCallId} className="my-4 space-y-2">
+                      <div className="p-3 bg-teal-50 border border-teal-200 rounded text-sm">
+                        🔢 <strong>Benford&apos;s Law:</strong> {result.result}
+                      </div>
+                      {result.chartConfig && (
+                        <AnalyticsChart chartConfig={result.chartConfig} data={result.chartData} />
+                      )}
+                      {result.flagged?.length > 0 && (
+                        <QueryResultsTable initialResults={result.flagged} nextCursor={null} />
+                      )}
+                    </div>
+                  );
+                }
+
+                // Period-over-period comparison with its diverging chart
+                else if (toolName === 'comparePeriods') {
+                  const { result } = toolInvocation;
+                  if (result.error) {
+                    return (
+                      <div key={toolCallId} className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                        📅 <strong>Period Comparison Failed:</strong> {result.error}
+                      </div>
+                    );
+                  }
+                  return (
+                    <div key={toolCallId} className="my-4 space-y-2">
+                      <div className="p-3 bg-sky-50 border border-sky-200 rounded text-sm">
+                        📅 <strong>Period Comparison:</strong> {result.result}
+                      </div>
+                      {result.chartConfig && (
+                        <AnalyticsChart chartConfig={result.chartConfig} data={result.chartData} />
+                      )}
+                      {result.results.length > 0 && (
+                        <QueryResultsTable initialResults={result.results} nextCursor={null} />
+                      )}
+                    </div>
+                  );
+                }
+
+                // The user's answer to an entity choice
+                else if (toolName === 'chooseEntity') {
+                  const choice = toolInvocation.result as EntityChoice;
                   return (
                     <div key={toolCallId} className="p-3 bg-green-50 border border-green-200 rounded text-sm">
-                      🔍 <strong>Entity Lookup:</strong> {result.result}
+                      ✅ <strong>Selected:</strong> {choice.name} (Code: {choice.code})
                     </div>
                   );
                 }
@@ -140,7 +387,9 @@ export default function Chat() {
                       setDownloadingQueries(prev => new Set(prev).add(toolCallId));
                       
                       try {
-                        await downloadCSVFromServer(result.sqlQuery, result.filename);
+                        await downloadCSVFromServer(result.sqlQuery, result.filename, progress => {
+                          setDownloadProgress(prev => ({ ...prev, [toolCallId]: progress }));
+                        });
                       } catch (error) {
                         console.error('Download failed:', error);
                         // Could add toast notification here
@@ -151,8 +400,14 @@ export default function Chat() {
                           newSet.delete(toolCallId);
                           return newSet;
                         });
+                        setDownloadProgress(prev => {
+                          const next = { ...prev };
+                          delete next[toolCallId];
+                          return next;
+                        });
                       }
                     };
+                    const progress = downloadProgress[toolCallId];
                     
                     return (
                       <div key={toolCallId} className="p-4 bg-green-50 border border-green-200 rounded-lg">
@@ -182,7 +437,11 @@ export default function Chat() {
                             {isDownloading ? (
                               <>
                                 <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full"></div>
-                                <span>Downloading...</span>
+                                <span>
+                                  {progress?.totalRows
+                                    ? `Downloading ${progress.totalRows.toLocaleString()} rows...`
+                                    : 'Downloading...'}
+                                </span>
                               </>
                             ) : (
                               <>
@@ -215,8 +474,8 @@ export default function Chat() {
                         {/* Performance Note */}
                         <div className="mt-3 p-2 bg-blue-50 border-l-4 border-blue-400 rounded text-xs">
                           <p className="text-blue-800">
-                            <strong>💡 Performance:</strong> Large datasets (&gt;50K records) may take several minutes to download.  Downloading is currently limited to 1000 records
-                            The download will start automatically when ready.
+                            <strong>💡 Performance:</strong> Large datasets (&gt;50K records) may take several minutes to download.
+                            Rows stream in as they are read, and the file is saved when the last row arrives.
                           </p>
                         </div>
                       </div>
@@ -239,6 +498,28 @@ export default function Chat() {
                   }
                 }
               } 
+              // Waiting for the user to pick an entity
+              else if (toolName === 'chooseEntity' && state === 'call') {
+                const { entityType, searchTerm, candidates } = toolInvocation.args as {
+                  entityType: EntityChoice['entityType'];
+                  searchTerm: string;
+                  candidates: LookupCandidate[];
+                };
+                return (
+                  <div key={toolCallId} className="p-3 bg-amber-50 border border-amber-200 rounded text-sm space-y-2">
+                    <div>
+                      🤔 <strong>Which {entityType} did you mean by &quot;{searchTerm}&quot;?</strong>
+                    </div>
+                    <LookupCandidateChips
+                      candidates={candidates}
+                      onSelect={candidate => addToolResult({
+                        toolCallId,
+                        result: { entityType, code: candidate.code, name: candidate.name } satisfies EntityChoice
+                      })}
+                    />
+                  </div>
+                );
+              }
               // Loading states
               else {
                 return (
@@ -252,6 +533,13 @@ export default function Chat() {
                         {toolName === 'explainQuery' && '📖 Explaining query...'}
                         {toolName === 'prepareBulkDownload' && '📋 Preparing download...'}
                         {toolName.includes('Code') && '🔍 Looking up entity...'}
+                        {toolName === 'chooseEntity' && '🤔 Preparing choices...'}
+                        {toolName === 'getCategoryObjects' && '🗂️ Looking up category objects...'}
+                        {toolName === 'detectAnomalies' && '🚨 Scoring payments against their peers...'}
+                        {toolName === 'detectDuplicatePayments' && '👯 Checking for duplicate payments...'}
+                        {toolName === 'analyzeVendorConcentration' && '🏢 Measuring vendor concentration...'}
+                        {toolName === 'benfordAnalysis' && '🔢 Comparing leading digits with Benford\'s law...'}
+                        {toolName === 'comparePeriods' && '📅 Comparing periods...'}
                       </span>
                     </div>
                   </div>
@@ -271,6 +559,33 @@ export default function Chat() {
                 </div>
               </div>
             )}
+
+            {/* Save the answer as a shareable analysis */}
+            {message.role === 'assistant' && !isLoading && message.toolInvocations?.some(
+              invocation => invocation.toolName === 'executeQuery' && invocation.state === 'result' && !invocation.result.error
+            ) && (
+              <div className="flex items-center space-x-3 text-sm">
+                {savedAnalyses[message.id]?.id ? (
+                  <a
+                    href={`/analysis/${savedAnalyses[message.id].id}`}
+                    className="text-green-700 hover:text-green-800 underline"
+                  >
+                    ✅ Saved - open shareable link
+                  </a>
+                ) : (
+                  <button
+                    onClick={() => handleSaveAnalysis(message, messageIndex)}
+                    disabled={savedAnalyses[message.id]?.saving}
+                    className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {savedAnalyses[message.id]?.saving ? 'Saving...' : '💾 Save analysis'}
+                  </button>
+                )}
+                {savedAnalyses[message.id]?.error && (
+                  <span className="text-red-600">{savedAnalyses[message.id].error}</span>
+                )}
+              </div>
+            )}
           </div>
         ))}
         
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin-auth';
+import { getAnalysisStore, type AnalysisUpdate } from '@/lib/database/analysis-store';
+import type { DataSourceError } from '@/lib/database/data-source';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: DataSourceError) {
+  return NextResponse.json(
+    { error: error.message },
+    { status: error.code === 'NOT_FOUND' ? 404 : 500 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { data, error } = await getAnalysisStore().get(id);
+
+    return error ? errorResponse(error) : NextResponse.json({ analysis: data });
+
+  } catch (error) {
+    console.error('Get analysis error:', error);
+    return NextResponse.json({ error: 'Failed to load analysis' }, { status: 500 });
+  }
+}
+
+// Anyone with a shared link can view and re-run an analysis; changing it is an admin route
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    // SQL and results are the snapshot itself - save a new analysis to change them
+    const changes: AnalysisUpdate = {};
+    if (typeof body.title === 'string') changes.title = body.title;
+    if (typeof body.question === 'string') changes.question = body.question;
+    if (typeof body.entityContext === 'string') changes.entityContext = body.entityContext;
+    if (body.chartConfig !== undefined) changes.chartConfig = body.chartConfig;
+
+    const { data, error } = await getAnalysisStore().update(id, changes);
+
+    return error ? errorResponse(error) : NextResponse.json({ analysis: data });
+
+  } catch (error) {
+    console.error('Update analysis error:', error);
+    return NextResponse.json({ error: 'Failed to update analysis' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+    const { data, error } = await getAnalysisStore().delete(id);
+
+    return error ? errorResponse(error) : NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Delete analysis error:', error);
+    return NextResponse.json({ error: 'Failed to delete analysis' }, { status: 500 });
+  }
+}
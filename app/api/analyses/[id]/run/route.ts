@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisStore } from '@/lib/database/analysis-store';
+import { executeAnalyticsQuery } from '@/lib/tools/databaseCodes';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Re-run a saved analysis against current data (the stored snapshot is left as is), through
+// the same validation, cost gate, cache, row limit and repair path as the chat tool
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { data: analysis, error: loadError } = await getAnalysisStore().get(id);
+
+    if (loadError || !analysis) {
+      return NextResponse.json(
+        { error: loadError?.message ?? 'Analysis not found' },
+        { status: loadError?.code === 'NOT_FOUND' ? 404 : 500 }
+      );
+    }
+
+    const result = await executeAnalyticsQuery({
+      sqlQuery: analysis.sqlQuery,
+      originalQuestion: analysis.question ?? undefined
+    });
+    if (result.error) {
+      // The saved query no longer validates, the cost gate stopped it, or it failed after repairs
+      return NextResponse.json(result, { status: 422 });
+    }
+
+    return NextResponse.json({ ...result, ranAt: new Date().toISOString() });
+
+  } catch (error) {
+    console.error('Re-run analysis error:', error);
+    return NextResponse.json({ error: 'Failed to re-run analysis' }, { status: 500 });
+  }
+}
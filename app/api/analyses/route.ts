@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin-auth';
+import { getAnalysisStore } from '@/lib/database/analysis-store';
+import { validateAnalyticsSql } from '@/lib/database/sql-validator';
+
+// Listing exposes every analysis ID, so it is an admin route; shared links name one analysis
+export async function GET(request: NextRequest) {
+  const denied = checkAdminToken(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 50, 200);
+    const { data, error } = await getAnalysisStore().list(limit);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ analyses: data });
+
+  } catch (error) {
+    console.error('List analyses error:', error);
+    return NextResponse.json({ error: 'Failed to list saved analyses' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { title, question, sqlQuery, entityContext, results, chartConfig } = await request.json();
+
+    if (!title || typeof title !== 'string') {
+      return NextResponse.json({ error: 'A title is required' }, { status: 400 });
+    }
+
+    // Saved analyses can be re-run, so only store queries the executor would accept
+    const validation = validateAnalyticsSql(sqlQuery);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid SQL query provided', rejections: validation.rejections },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await getAnalysisStore().create({
+      title,
+      question,
+      sqlQuery,
+      entityContext,
+      results: Array.isArray(results) ? results : [],
+      chartConfig
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ analysis: data }, { status: 201 });
+
+  } catch (error) {
+    console.error('Save analysis error:', error);
+    return NextResponse.json({ error: 'Failed to save analysis' }, { status: 500 });
+  }
+}
@@ -9,6 +9,8 @@ import {
   getCategoryCodeTool,
   getPayeeCodeTool,
   getComptrollerCodeTool,
+  getFundCodeTool,
+  getAppropriationCodeTool,
   
   // NEW: Enhanced SQL analytics tools
   generateAnalyticsQueryTool,
@@ -17,11 +19,29 @@ import {
   generateChartConfigTool,
   prepareBulkDownloadTool,
 } from '../../../lib/tools/databaseCodes';
+import { getCategoryObjectsTool } from '../../../lib/tools/categoryObjects';
+import { detectAnomaliesTool } from '../../../lib/tools/paymentAnomalies';
+import { detectDuplicatePaymentsTool } from '../../../lib/tools/duplicatePayments';
+import { analyzeVendorConcentrationTool } from '../../../lib/tools/vendorConcentration';
+import { benfordAnalysisTool } from '../../../lib/tools/benfordAnalysis';
+import { comparePeriodsTool } from '../../../lib/tools/periodComparison';
+import { chooseEntityTool } from '../../../lib/tools/lookupCandidates';
+import { getReferenceData } from '../../../lib/database/reference-data';
 
 export const maxDuration = 30;
 
 export async function POST(req: Request) {
   const { messages } = await req.json();
+  const referenceData = await getReferenceData();
+  const agencyCount = referenceData.entries('agencyCodes').length;
+  const categoryCount = referenceData.entries('categoryCodes').length;
+  const fundCount = referenceData.entries('applicationFundCodes').length;
+  const comptrollerCount = referenceData.entries('comptrollerCodes').length;
+  // Unloadable tables with no snapshot have no entries; don't present that as a count of 0
+  const tableTotal = (table: 'fundCodes' | 'appropriationNameCodes') =>
+    referenceData.isAvailable(table) ? `${referenceData.entries(table).length} total` : 'list not loaded';
+  const treasuryFundTotal = tableTotal('fundCodes');
+  const appropriationTotal = tableTotal('appropriationNameCodes');
  
   const result = streamText({ 
     model: openai("gpt-4o"),
@@ -31,10 +51,11 @@ DATABASE OVERVIEW:
 You have access to the complete Texas DOGE financial database containing:
 - 750,000 payment records from 2022 (Jan 5 - Dec 4)
 - $50+ billion in government spending
-- 193 Texas agencies (from universities to departments)
-- 21 spending categories (salaries, construction, benefits, etc.)
-- 496 application funds (revenue sources and special funds)
-- 378 comptroller objects (detailed expense classifications)
+- ${agencyCount} Texas agencies (from universities to departments)
+- ${categoryCount} spending categories (salaries, construction, benefits, etc.)
+- ${fundCount} application funds (revenue sources and special funds)
+- ${comptrollerCount} comptroller objects (detailed expense classifications)
+- Treasury funds (${treasuryFundTotal}) and appropriation line items (${appropriationTotal})
 - 2.2+ million payees (companies, individuals, organizations)
 
 
@@ -42,41 +63,54 @@ You must determine what the user is asking for and what they needs information a
 AVAILABLE LOOKUP CAPABILITIES:
 Before generating SQL queries, you can intelligently lookup:
 
-AGENCIES (193 total) - Use this for when the user is asking for infomration about a sector of govement:
+AGENCIES (${agencyCount} total) - Use this for when the user is asking for infomration about a sector of govement:
 Examples include:
 - Universities: "UT Austin", "Texas A&M", "University of Houston"
 - Departments: "Transportation", "Health Services", "Public Safety"
 - Commissions: "Railroad Commission", "Ethics Commission"
 - Examples: "education" → Texas Education Agency, "DOT" → Dept of Transportation
+- Groups: "all UT schools", "the A&M system", "courts of appeals", "licensing boards" → an agency group ID (e.g. "ut-system"). Pass it as resolvedEntities.agencyGroupIds to cover every member agency instead of listing codes
 
-SPENDING CATEGORIES (21 total):
+SPENDING CATEGORIES (${categoryCount} total):
 
 
-COMPTROLLER OBJECTS (378 total) - Detailed expense types.  You should defualt to using categoreis when possible if the user asks for more detailed inforomation or there is nothing in the categories use the comptroller objects:
+COMPTROLLER OBJECTS (${comptrollerCount} total) - Detailed expense types.  You should defualt to using categoreis when possible if the user asks for more detailed inforomation or there is nothing in the categories use the comptroller objects:
 Examples: - Salary and wage variations for different positions
 - Medical expenses and healthcare costs
 - Equipment purchases and maintenance
 - Travel and transportation expenses
 - Professional services and consulting
 
+CATEGORY → OBJECT ROLLUP - Every comptroller object rolls up to a category (derived from the payments). Use getCategoryObjects:
+- categoryId → the objects that make up that category, e.g. to "break down salaries and wages further" before grouping by comptroller object
+- objectCode → the category an object belongs to, so you can widen an object question to its category
+- family such as "70xx" → a whole object code range
 
-APPLICATION FUNDS (496 total) - Use this if the user asks for where the money for a payment came from:
+
+APPLICATION FUNDS (${fundCount} total) - Use this if the user asks for where the money for a payment came from:
 - General Revenue Fund (1) - Primary state funding
 - Tobacco Settlement funds - Health-related spending
 - Education funds - School and university funding
 - Highway funds - Transportation infrastructure
 - Examples: "general revenue" → Fund 1, "tobacco" → tobacco settlement funds
+- Source of money: every application fund is classified as General Revenue, GR-Dedicated, Federal or Other. For "how much was federal money" / "GR vs federal", use the fund_source dimension, resolvedEntities.fundSources (general_revenue, gr_dedicated, federal, other) or drill-down type fund_source_breakdown instead of looking up individual funds
+
+TREASURY FUNDS (${treasuryFundTotal}) - The detailed fund a payment was drawn from (fundCodes, payments."Fund_Num"). Use getFundCode only when the user names a specific fund that isn't an application fund, then pass it as resolvedEntities.fundIds; group with the treasury_fund dimension
+
+APPROPRIATIONS (${appropriationTotal}) - Budget line items the legislature funded. Use getAppropriationCode for a named line item or "unappropriated" spending (0) and pass it as resolvedEntities.appropriationIds. For "which line items" / "break down by appropriation", use the appropriation dimension or drill-down type appropriation_breakdown
 
 👥 PAYEES (2.2M+ total) - Payment recipients:
 - "Confidential" - Individual benefit recipients
 - Universities and school districts
 - Private companies and contractors
 - Other government entities
-- Note: Large dataset, use specific search terms
+- Note: Large dataset, use specific search terms. getPayeeCode ranks matches by total paid; pass its nextOffset as offset for the next page, or payeeId for an exact ID
+- Payee types (individual, company, nonprofit, school_district, higher_education, county, city, special_district, government) are tagged from names - use the payee_type dimension or payeeTypes filter for "school districts vs private vendors" questions instead of looking up payees
+- One company often appears under several spellings; getPayeeCode returns the vendor cluster (vendorId plus member payee IDs) - use vendorIds or the vendor dimension for company totals
 
 INTELLIGENT LOOKUP PROCESS:
 1. ALWAYS use lookup tools FIRST before generating SQL queries, AI-powered tools understand context, abbreviations, and intent
-2. Present multiple options when ambiguous, let user choose
+2. When a lookup returns needsSelection: true and the question doesn't settle it, call chooseEntity with that lookup's candidates - the user picks one on screen and you get { entityType, code, name } back. Don't ask them to retype a choice
 3. Resolve ALL entities before generating SQL with exact IDs
 
 CONVERSATIONAL ENTITY RESOLUTION WORKFLOW:
@@ -192,6 +226,24 @@ SMART CONFIRMATION LOGIC:
 - Ambiguous queries: Ask clarifying questions with context about Texas government
 
 
+QUERY COST GATE:
+executeQuery checks the planner estimate before running a query and reports the decision in costGate:
+- "allow": the query ran normally
+- "downgrade": the query was answered from the pre-aggregated monthly summary - mention this briefly, totals are unchanged
+- "require_filters": the query did not run - tell the user why, then regenerate it with a date range, agency, category or payee filter
+- "refuse": the query did not run - explain costGate.reason and suggest a narrower question
+
+QUERY REPAIR:
+- Pass the user's question to executeQuery as originalQuestion
+- If the database rejects a query, executeQuery repairs and retries it automatically and lists each try in repairAttempts
+- When repairAttempts is present and the query succeeded, use executedQuery (not the original SQL) for charts, explanations and downloads
+
+ROW LIMITS:
+- executeQuery returns at most maxRows rows (default 100, up to 999) and reports truncated, limitApplied, queryLimit and totalRows
+- When truncated is true, say the results are partial - quote totalRows when it is not null - and offer a CSV download for the full set
+- Never describe results as "limited to 1000" unless that is what the result reports
+- Truncated results come with a nextCursor; the page shows a "Load more" button, so do not re-run the query just to see more rows
+
 CSV DOWNLOAD WORKFLOW (Two-Phase System):
 - When users request "download as CSV", "export data", "bulk download", or similar
 - Use prepareBulkDownload tool to prepare SQL query and show download button immediately
@@ -258,13 +310,12 @@ Handle sophisticated analyses that build upon each other:
 
 EXAMPLE 1 - COMPARATIVE AGENCY ANALYSIS:
 User: "Compare education spending between UT and A&M systems"
-Step 1: getAgencyCode("UT") → Multiple UT schools → Present options
-Step 2: User selects "University of Texas System" (720)
-Step 3: getAgencyCode("A&M") → Multiple A&M schools → Present options  
-Step 4: User selects "Texas A&M University System" (710)
-Step 5: Generate comparative query with both agency IDs
-Step 6: Execute and create bar chart comparing the two systems
-Step 7: Suggest follow-up: "Would you like to see this broken down by spending category?"
+Step 1: getAgencyCode("UT system") → agency group "ut-system" (all UT campuses)
+Step 2: getAgencyCode("A&M system") → agency group "tamu-system"
+Step 3: Generate a total-by-category query for each group with resolvedEntities.agencyGroupIds
+Step 4: Execute both queries
+Step 5: Create a bar chart comparing the two systems
+Step 6: Suggest follow-up: "Would you like to see which campuses drive the difference?"
 
 EXAMPLE 2 - DRILL-DOWN ANALYSIS:
 User: "Show me the biggest spending agencies, then break down the top one by category"
@@ -308,6 +359,21 @@ PROGRESSIVE DISCLOSURE STRATEGY:
 4. Offer related analyses that build on current findings
 5. Always explain the "why" behind patterns discovered
 
+UNUSUAL PAYMENTS:
+For "unusual", "suspicious", "outlier" or "anomalous" payments, use detectAnomalies instead of writing SQL. It compares each payment with its peers (peerGroup agency_object: the same agency and comptroller object; payee: the payee's own history) and returns the top outliers with the baseline they deviate from. Look up entities first and pass them as resolvedEntities or filters to narrow the payments scored. Explain each outlier in terms of its baseline (e.g. "12x the median of 340 similar payments") - an outlier is a lead to check, not proof of waste.
+
+DUPLICATE PAYMENTS:
+For "duplicate", "double paid" or "paid twice" questions, use detectDuplicatePayments. It groups payments with the same payee and amount within windowDays (default 7), the same amount paid by one agency to different payee IDs of one vendor, and one agency repeatedly paying one payee the same amount. Report high-confidence groups and their exposure first; low-confidence repeated amounts are often rent or installments, so call them amounts to review, not exposure. The result card has a CSV download of every group, so don't call prepareBulkDownload for it.
+
+VENDOR CONCENTRATION:
+For "depends on one vendor", "how concentrated", "market share" or "HHI" questions, use analyzeVendorConcentration with the slice as filters (look up the agency, category or comptroller object first). Add groupBy (agency, category or comptroller) to rank the parts of the slice by HHI, e.g. which of an agency's comptroller objects depend on a single vendor. The result includes a chart, so don't call generateChart for it. HHI runs 0-10,000: above 1,800 is highly concentrated, 1,000-1,800 moderately.
+
+BENFORD'S LAW:
+For "Benford", "first digit" or "are these amounts fabricated / shaped around a limit" questions, use benfordAnalysis with the slice as filters. Start with test first_digit; use first_two_digits to find which amounts are over-represented (e.g. 49 when payments cluster just under $5,000). Report the MAD conformity label and the flagged digits; chi-square rejects almost any large sample, so lean on MAD. Nonconformity is a reason to look closer, not proof of fraud - rent, fixed fees and pricing schedules also break Benford. The result includes a chart, so don't call generateChart for it.
+
+PERIOD COMPARISONS:
+For "how did March compare to February", "Q2 vs Q3", "month over month" or "what changed since" questions, use comparePeriods instead of writing two queries. Pass the dimension to compare by, baselinePeriod (the earlier or reference period) and currentPeriod as {start, end} dates, plus short baselineLabel/currentLabel names like "February" and "March". Put the slice in filters or resolvedEntities without a dateRange - the periods replace it. Lead with the total change, then the members that moved most and any new or dropped members. The result includes a diverging bar chart, so don't call generateChart for it.
+
 INTELLIGENT DRILL-DOWN LOGIC:
 When users ask to "breakdown" or "drill down" into a category (like "salaries and wages"), use the SPECIALIZED DRILL-DOWN TOOL:
 
@@ -404,6 +470,20 @@ Always be conversational and explain your reasoning with Texas government expert
       getCategoryCode: getCategoryCodeTool,
       getPayeeCode: getPayeeCodeTool,
       getComptrollerCode: getComptrollerCodeTool,
+      getFundCode: getFundCodeTool,
+      getAppropriationCode: getAppropriationCodeTool,
+
+      getCategoryObjects: getCategoryObjectsTool,
+
+      // Analysis tools that build their own queries
+      detectAnomalies: detectAnomaliesTool,
+      detectDuplicatePayments: detectDuplicatePaymentsTool,
+      analyzeVendorConcentration: analyzeVendorConcentrationTool,
+      benfordAnalysis: benfordAnalysisTool,
+      comparePeriods: comparePeriodsTool,
+
+      // Answered by the user on the /analyst page
+      chooseEntity: chooseEntityTool,
       
       // Enhanced SQL analytics tools
       generateAnalyticsQuery: generateAnalyticsQueryTool,
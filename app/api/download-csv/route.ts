@@ -1,87 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { validateAnalyticsSql } from '@/lib/database/sql-validator';
+import { evaluateQueryCost } from '@/lib/database/cost-gate';
+import { countQueryRows, EXPORT_PAGE_SIZE, planExport, readQueryPages } from '@/lib/database/query-export';
+import { createQueryCursor, readQueryCursor, QueryCursorError } from '@/lib/database/query-pages';
+import { formatRowDates } from '@/lib/database/row-dates';
+import { formatCSVRow } from '@/lib/utils/csv';
 
+// Full exports of payments page through hundreds of RPC calls
+export const maxDuration = 300;
+
+function downloadFilename(filename: unknown): string {
+  return (typeof filename === 'string' && filename ? filename : 'export').replace(/["\r\n]/g, '');
+}
+
+/**
+ * Validate and count an export, and return a signed URL the browser downloads it from.
+ * The row count comes back here so the client never has to count CSV lines.
+ */
 export async function POST(request: NextRequest) {
   try {
     const { sqlQuery, filename } = await request.json();
-    
+
     // Validate request
-    if (!sqlQuery || !sqlQuery.trim().toUpperCase().startsWith('SELECT')) {
+    const validation = validateAnalyticsSql(sqlQuery);
+    if (!validation.isValid) {
       return NextResponse.json(
-        { error: 'Invalid SQL query provided' },
+        { error: 'Invalid SQL query provided', rejections: validation.rejections },
         { status: 400 }
       );
     }
 
-    // Execute the bulk query server-side
-    // TEMPORARY: Use regular analytics function since bulk function is having 520 errors
-    console.log('Using execute_analytics_query as fallback...');
-    const { data, error } = await supabase.rpc('execute_analytics_query', {
-      query_text: sqlQuery
-    });
-    
-    if (error) {
-      console.error('Bulk query execution error:', error);
-      return NextResponse.json(
-        { error: 'Database query failed: ' + error.message },
-        { status: 500 }
-      );
+    // Row count up front so the client can show what it's downloading. Counting runs the
+    // whole query, so only queries the cost gate allows are counted; the export itself pages.
+    let totalRows: number | null = null;
+    const costGate = await evaluateQueryCost(sqlQuery);
+    if (costGate.decision === 'allow') {
+      try {
+        totalRows = await countQueryRows(sqlQuery);
+      } catch (error) {
+        console.error('CSV row count failed, exporting without a total:', error);
+      }
     }
 
-    if (!data || data.length === 0) {
+    if (totalRows === 0) {
       return NextResponse.json(
         { error: 'No data returned from query' },
         { status: 404 }
       );
     }
 
-    // Process results for CSV format
-    const processedResults = data.map((row: Record<string, unknown>) => {
-      const processedRow = { ...row };
-      
-      // Format dates for CSV/Excel compatibility
-      if (processedRow.date) {
-        processedRow.date = new Date(processedRow.date as string | number | Date).toISOString().split('T')[0];
-      }
-      if (processedRow.month) {
-        processedRow.month = new Date(processedRow.month as string | number | Date).toISOString().split('T')[0];
-      }
-      
-      return processedRow;
-    });
-
-    // Generate CSV content server-side
-    const headers = Object.keys(processedResults[0]);
-    const csvHeaders = headers.map(header => `"${header}"`).join(',');
-    
-    const csvRows = processedResults.map((row: Record<string, unknown>) => {
-      return headers.map(header => {
-        const value = row[header];
-        
-        if (value === null || value === undefined) {
-          return '""';
-        }
-        
-        if (typeof value === 'number') {
-          return value.toString();
-        }
-        
-        const stringValue = value.toString().replace(/"/g, '""');
-        return `"${stringValue}"`;
-      }).join(',');
+    // The token is a signed export cursor, so GET only streams queries validated here
+    const params = new URLSearchParams({
+      token: createQueryCursor(sqlQuery, 0, EXPORT_PAGE_SIZE, 'export'),
+      filename: downloadFilename(filename)
     });
 
-    const csvContent = [csvHeaders, ...csvRows].join('\n');
-    
-    // Return CSV as downloadable file
-    const cleanFilename = filename.endsWith('.csv') ? filename : `${filename}.csv`;
-    
-    return new NextResponse(csvContent, {
-      headers: {
-        'Content-Type': 'text/csv',
-        'Content-Disposition': `attachment; filename="${cleanFilename}"`,
-        'Content-Length': csvContent.length.toString(),
-      },
+    return NextResponse.json({
+      downloadUrl: `/api/download-csv?${params}`,
+      totalRows,
+      exportMode: planExport(sqlQuery).mode
     });
 
   } catch (error) {
@@ -92,3 +69,70 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Stream the CSV for a token from POST, page by page, straight to the browser's download
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  const filename = downloadFilename(request.nextUrl.searchParams.get('filename'));
+
+  let sqlQuery: string;
+  try {
+    ({ sqlQuery } = readQueryCursor(token ?? '', 'export'));
+  } catch (error) {
+    if (error instanceof QueryCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Invalid download token' }, { status: 400 });
+  }
+
+  const plan = planExport(sqlQuery);
+  const pages = readQueryPages(plan);
+  const encoder = new TextEncoder();
+  let headers: string[] | null = null;
+
+  // Stream the CSV page by page: header line, then "\n" + row for each row
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value: rows } = await pages.next();
+
+        if (done) {
+          if (!headers) {
+            controller.enqueue(encoder.encode('""'));
+          }
+          controller.close();
+          return;
+        }
+
+        let chunk = '';
+        if (!headers && rows.length > 0) {
+          headers = Object.keys(rows[0]);
+          chunk += headers.map(header => `"${header}"`).join(',');
+        }
+        for (const row of rows) {
+          chunk += '\n' + formatCSVRow(formatRowDates(row), headers!);
+        }
+
+        controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        console.error('Bulk query execution error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await pages.return(undefined);
+    }
+  });
+
+  // Return CSV as downloadable file
+  const cleanFilename = filename.endsWith('.csv') ? filename : `${filename}.csv`;
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="${cleanFilename}"`,
+      'X-Export-Mode': plan.mode
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { duplicateOptionsSchema } from '@/lib/database/duplicate-payments';
+import { QuerySpecError } from '@/lib/database/query-spec';
+import { detectDuplicatePayments } from '@/lib/tools/duplicatePayments';
+
+// Groups of likely duplicate payments; export every group by POSTing exportQuery to /api/download-csv
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = duplicateOptionsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid duplicate search options', issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const result = await detectDuplicatePayments(parsed.data);
+    if (result.error) {
+      // The cost gate wants a narrower slice
+      return NextResponse.json(result, { status: 422 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof QuerySpecError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Duplicate payments error:', error);
+    return NextResponse.json(
+      { error: 'Failed to check payments for duplicates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { executeAnalyticsQuery } from '@/lib/tools/databaseCodes';
+
+// Run a SQL query through the same validation, cost gate, cache and row limit as the chat tool
+export async function POST(request: NextRequest) {
+  try {
+    const { sqlQuery, maxRows, originalQuestion } = await request.json();
+
+    if (!sqlQuery || typeof sqlQuery !== 'string') {
+      return NextResponse.json(
+        { error: 'A SQL query is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await executeAnalyticsQuery({
+      sqlQuery,
+      maxRows: typeof maxRows === 'number' ? maxRows : undefined,
+      originalQuestion: typeof originalQuestion === 'string' ? originalQuestion : undefined
+    });
+    if (result.error) {
+      // Rejected by the validator or the cost gate, or failed after repairs
+      return NextResponse.json(result, { status: 422 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Execute query error:', error);
+    return NextResponse.json(
+      { error: 'Failed to execute the query' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchQueryPage, QueryCursorError } from '@/lib/database/query-pages';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { cursor } = await request.json();
+
+    if (!cursor || typeof cursor !== 'string') {
+      return NextResponse.json(
+        { error: 'A cursor from a previous query result is required' },
+        { status: 400 }
+      );
+    }
+
+    const page = await fetchQueryPage(cursor);
+    return NextResponse.json(page);
+
+  } catch (error) {
+    if (error instanceof QueryCursorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Query page error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load the next page of results' },
+      { status: 500 }
+    );
+  }
+}
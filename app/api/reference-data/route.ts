@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin-auth';
+import { getReferenceData, reloadReferenceData } from '@/lib/database/reference-data';
+
+// Load status of each code table and how it differs from the committed snapshot. Tables
+// without a committed snapshot are listed in missingSnapshots and never count as in sync.
+// ?reload=1 reloads the tables from the data source first and, like the other
+// maintenance routes, requires x-admin-token to match ADMIN_API_TOKEN.
+export async function GET(request: NextRequest) {
+  const reload = request.nextUrl.searchParams.get('reload') === '1';
+  if (reload) {
+    const denied = checkAdminToken(request);
+    if (denied) {
+      return denied;
+    }
+  }
+
+  try {
+    const referenceData = reload ? await reloadReferenceData() : await getReferenceData();
+    const diffs = referenceData.diff();
+
+    return NextResponse.json({
+      tables: referenceData.summary(),
+      diffs,
+      missingSnapshots: diffs.filter(diff => !diff.hasSnapshot).map(diff => diff.table),
+      inSync: diffs.every(diff => diff.hasSnapshot && diff.added.length === 0 && diff.removed.length === 0 && diff.renamed.length === 0)
+    });
+
+  } catch (error) {
+    console.error('Reference data error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reference data' },
+      { status: 500 }
+    );
+  }
+}
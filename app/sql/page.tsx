@@ -7,6 +7,7 @@ import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '@
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { Search, Play, Table as TableIcon, BarChart3, HelpCircle, Loader2 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { executeQuery, fetchNextQueryPage } from '@/lib/utils/query-pages';
 
 // Types
 interface QueryResult {
@@ -62,6 +63,8 @@ export default function SQLChat() {
   const [queryExplanations, setQueryExplanations] = useState<Array<{section: string, explanation: string}>>([]);
   const [results, setResults] = useState<QueryResult[]>([]);
   const [columns, setColumns] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [chartConfig, setChartConfig] = useState<ChartConfig | null>(null);
   const [activeView, setActiveView] = useState<'table' | 'chart'>('table');
   const [queryExpanded, setQueryExpanded] = useState(false);
@@ -72,6 +75,7 @@ export default function SQLChat() {
   const clearExistingData = () => {
     setResults([]);
     setColumns([]);
+    setNextCursor(null);
     setActiveQuery('');
     setQueryExplanations([]);
     setChartConfig(null);
@@ -96,16 +100,16 @@ export default function SQLChat() {
     setActiveQuery('');
 
     try {
-      // TODO: Implement actual API calls
+      // TODO: Generate the SQL from the question
       // Step 1: Generate SQL query
       setLoadingStep(1);
       await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
       
       // Mock generated SQL for now
-      const mockQuery = `SELECT a.agency_name, SUM(p.amount) as total_amount
-FROM payments p
-JOIN agencyCodes a ON p.agency_cd = a.agency_cd
-GROUP BY a.agency_name
+      const mockQuery = `SELECT a."Agency_Name" AS agency_name, SUM(p."Amount") AS total_amount
+FROM "payments" p
+JOIN "agencyCodes" a ON p."Agency_CD" = a."Agency_CD"
+GROUP BY a."Agency_Name"
 ORDER BY total_amount DESC
 LIMIT 5;`;
       
@@ -113,19 +117,12 @@ LIMIT 5;`;
       setLoadingStep(2);
 
       // Step 2: Execute query
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
-      
-      // Mock results for now
-      const mockResults = [
-        { agency_name: 'Health and Human Services Commission', total_amount: 5000000000 },
-        { agency_name: 'Department of Transportation', total_amount: 3500000000 },
-        { agency_name: 'Texas Education Agency', total_amount: 2800000000 },
-        { agency_name: 'Department of Public Safety', total_amount: 1200000000 },
-        { agency_name: 'Parks and Wildlife Department', total_amount: 800000000 }
-      ];
-      
-      setResults(mockResults);
-      setColumns(mockResults.length > 0 ? Object.keys(mockResults[0]) : []);
+      const execution = await executeQuery(mockQuery, question);
+      const rows = execution.results as QueryResult[];
+
+      setResults(rows);
+      setColumns(rows.length > 0 ? Object.keys(rows[0]) : []);
+      setNextCursor(execution.nextCursor);
 
       setLoading(false);
 
@@ -160,10 +157,10 @@ LIMIT 5;`;
     
     // Mock explanations
     const mockExplanations = [
-      { section: 'SELECT a.agency_name, SUM(p.amount)', explanation: 'Select agency names and calculate the total amount spent by each agency' },
-      { section: 'FROM payments p', explanation: 'Start with the main payments table' },
-      { section: 'JOIN agencyCodes a ON p.agency_cd = a.agency_cd', explanation: 'Join with agency codes table to get readable agency names' },
-      { section: 'GROUP BY a.agency_name', explanation: 'Group results by agency name to aggregate spending' },
+      { section: 'SELECT a."Agency_Name" AS agency_name, SUM(p."Amount")', explanation: 'Select agency names and calculate the total amount spent by each agency' },
+      { section: 'FROM "payments" p', explanation: 'Start with the main payments table' },
+      { section: 'JOIN "agencyCodes" a ON p."Agency_CD" = a."Agency_CD"', explanation: 'Join with agency codes table to get readable agency names' },
+      { section: 'GROUP BY a."Agency_Name"', explanation: 'Group results by agency name to aggregate spending' },
       { section: 'ORDER BY total_amount DESC', explanation: 'Sort agencies by total spending in descending order' },
       { section: 'LIMIT 5', explanation: 'Return only the top 5 results' }
     ];
@@ -172,6 +169,23 @@ LIMIT 5;`;
     setLoadingExplanation(false);
   };
 
+  // Fetch the next page of the current query without re-running the model
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchNextQueryPage(nextCursor);
+      setResults(previous => [...previous, ...(page.results as QueryResult[])]);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      console.error('Error loading more results:', e);
+      setError('Could not load more results. Please run the query again.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   // Handle suggested query click
   const handleSuggestedQuery = (queryText: string) => {
     setInputValue(queryText);
@@ -395,6 +409,14 @@ LIMIT 5;`;
                     ))}
                   </TableBody>
                 </Table>
+                {nextCursor && (
+                  <div className="flex justify-center pt-4">
+                    <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={loadingMore}>
+                      {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                      {loadingMore ? 'Loading...' : 'Load more'}
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : chartConfig && (
               <div className="space-y-4">
@@ -20,36 +20,7 @@ import {
   ResponsiveContainer,
   Brush,
 } from 'recharts';
-
-interface ChartConfig {
-  type: 'bar' | 'line' | 'area' | 'pie';
-  title: string;
-  description: string;
-  xKey: string;
-  yKeys: string[];
-  colors?: Record<string, string>;
-  legend: boolean;
-  businessInsights: string[];
-  takeaway: string;
-  isTimeSeries: boolean;
-  trendAnalysis?: {
-    direction: 'increasing' | 'decreasing' | 'stable' | 'volatile';
-    changePercent?: number;
-    seasonality?: string;
-  };
-  alternativeCharts?: Array<{
-    type: 'bar' | 'line' | 'area' | 'pie';
-    reason: string;
-    suitability: number;
-    title: string;
-    analyticalPerspective: string;
-  }>;
-  dataQuality: {
-    completeness: number;
-    timeRange: string;
-    sampleSize: string;
-  };
-}
+import type { ChartConfig } from '@/lib/utils/chart-config';
 
 interface AnalyticsChartProps {
   chartConfig: ChartConfig;
@@ -120,7 +91,14 @@ export function AnalyticsChart({ chartConfig, data }: AnalyticsChartProps) {
     return colors?.[key] || `hsl(${index * 137.5}, 70%, 50%)`;
   };
 
-  const formatCurrency = (value: number) => {
+  // Dollars unless the config says the values are percentages or plain counts
+  const formatValue = (value: number) => {
+    if (chartConfig.valueFormat === 'percent') {
+      return `${value.toFixed(1)}%`;
+    }
+    if (chartConfig.valueFormat === 'number') {
+      return value.toLocaleString('en-US');
+    }
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
       currency: 'USD',
@@ -183,7 +161,7 @@ export function AnalyticsChart({ chartConfig, data }: AnalyticsChartProps) {
           return (
             <div key={index} className="space-y-1">
               <p className="text-sm" style={{ color: entry.color }}>
-                <span className="font-medium">{entry.name}:</span> {formatCurrency(entry.value)}
+                <span className="font-medium">{entry.name}:</span> {formatValue(entry.value)}
               </p>
               {insight && (
                 <p className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded">
@@ -240,7 +218,7 @@ export function AnalyticsChart({ chartConfig, data }: AnalyticsChartProps) {
               fontSize={12}
             />
             <YAxis 
-              tickFormatter={(value) => formatCurrency(value)} 
+              tickFormatter={(value) => formatValue(value)} 
               fontSize={12}
               width={50}
             />
@@ -251,6 +229,7 @@ export function AnalyticsChart({ chartConfig, data }: AnalyticsChartProps) {
                 key={key} 
                 dataKey={key} 
                 fill={getColor(key, index)}
+                stackId={chartConfig.stacked ? 'stack' : undefined}
                 onMouseEnter={(data) => setHoveredElement(data)}
                 onMouseLeave={() => setHoveredElement(null)}
                 style={{ 
@@ -280,7 +259,7 @@ export function AnalyticsChart({ chartConfig, data }: AnalyticsChartProps) {
               fontSize={12}
             />
             <YAxis 
-              tickFormatter={(value) => formatCurrency(value)} 
+              tickFormatter={(value) => formatValue(value)} 
               fontSize={12}
               width={50}
             />
@@ -319,7 +298,7 @@ export function AnalyticsChart({ chartConfig, data }: AnalyticsChartProps) {
               fontSize={12}
             />
             <YAxis 
-              tickFormatter={(value) => formatCurrency(value)} 
+              tickFormatter={(value) => formatValue(value)} 
               fontSize={12}
               width={50}
             />
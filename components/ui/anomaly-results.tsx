@@ -0,0 +1,80 @@
+'use client';
+
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '@/components/ui/table';
+import type { AnomalyResult } from '@/lib/tools/paymentAnomalies';
+
+interface AnomalyResultsCardProps {
+  summary: string;
+  method: 'robust_z' | 'iqr';
+  anomalies: AnomalyResult[];
+  sqlQuery?: string;
+}
+
+function formatDollars(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+export function AnomalyResultsCard({ summary, method, anomalies, sqlQuery }: AnomalyResultsCardProps) {
+  return (
+    <div className="p-4 bg-rose-50 border border-rose-200 rounded-lg">
+      <div className="flex items-center mb-2">
+        <span className="mr-2">🚨</span>
+        <span className="font-medium text-rose-800">Unusual Payments</span>
+      </div>
+      <p className="text-sm text-rose-700 mb-3">{summary}</p>
+
+      {anomalies.length > 0 && (
+        <div className="bg-white border rounded">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Payee</TableHead>
+                <TableHead>Agency / Object</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Peer Median</TableHead>
+                <TableHead className="text-right">{method === 'robust_z' ? 'Robust z' : 'IQRs Out'}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {anomalies.map(anomaly => (
+                <TableRow key={anomaly.key}>
+                  <TableCell className="whitespace-nowrap">{anomaly.date}</TableCell>
+                  <TableCell>
+                    {anomaly.payee} <span className="text-xs text-gray-500">· {anomaly.payeeId}</span>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <div>{anomaly.agency}</div>
+                    <div className="text-gray-500">{anomaly.comptrollerObject}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatDollars(anomaly.amount)}</TableCell>
+                  <TableCell
+                    className="text-right text-xs text-gray-600"
+                    title={`Q1 ${formatDollars(anomaly.baseline.q1)} · Q3 ${formatDollars(anomaly.baseline.q3)} · MAD ${formatDollars(anomaly.baseline.mad)} (${anomaly.baseline.description})`}
+                  >
+                    {formatDollars(anomaly.baseline.median)}
+                    <div>{anomaly.baseline.peerCount.toLocaleString()} peers{anomaly.timesMedian !== null && ` · ${anomaly.timesMedian}×`}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {(method === 'robust_z' ? anomaly.robustZ : anomaly.iqrDistance)?.toFixed(1) ?? '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {sqlQuery && (
+        <details className="mt-3">
+          <summary className="text-sm text-rose-700 cursor-pointer hover:text-rose-800">
+            View SQL Query
+          </summary>
+          <pre className="mt-2 p-2 bg-gray-900 text-green-400 rounded text-xs overflow-x-auto">
+            {sqlQuery}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
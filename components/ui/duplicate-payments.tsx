@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '@/components/ui/table';
+import { downloadCSVFromServer, type CSVDownloadProgress } from '@/lib/utils/csv';
+import type { DuplicateConfidence, DuplicateGroup } from '@/lib/database/duplicate-payments';
+
+interface DuplicatePaymentsCardProps {
+  summary: string;
+  groups: DuplicateGroup[];
+  exportQuery: string;
+  filename: string;
+}
+
+const CONFIDENCE_STYLES: Record<DuplicateConfidence, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+const PATTERN_LABELS: Record<DuplicateGroup['pattern'], string> = {
+  same_payee_window: 'Same payee & amount',
+  related_payees: 'Related payee IDs',
+  repeated_amount: 'Repeated amount'
+};
+
+function formatDollars(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+export function DuplicatePaymentsCard({ summary, groups, exportQuery, filename }: DuplicatePaymentsCardProps) {
+  const [downloading, setDownloading] = useState(false);
+  const [progress, setProgress] = useState<CSVDownloadProgress | null>(null);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadCSVFromServer(exportQuery, filename, setProgress);
+    } catch (error) {
+      console.error('Download failed:', error);
+      alert('Download failed: ' + (error as Error).message);
+    } finally {
+      setDownloading(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <span className="mr-2">👯</span>
+          <span className="font-medium text-orange-800">Possible Duplicate Payments</span>
+        </div>
+        {groups.length > 0 && (
+          <button
+            onClick={handleDownload}
+            disabled={downloading}
+            className="px-3 py-1 text-sm rounded bg-orange-600 text-white hover:bg-orange-700 disabled:bg-gray-400"
+          >
+            {downloading
+              ? progress?.totalRows ? `Downloading ${progress.totalRows.toLocaleString()} groups...` : 'Downloading...'
+              : '📥 Download all groups (CSV)'}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-orange-700 mb-3">{summary}</p>
+
+      {groups.length > 0 && (
+        <div className="bg-white border rounded">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Confidence</TableHead>
+                <TableHead>Pattern</TableHead>
+                <TableHead>Payee / Agency</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead className="text-right">Beyond First Payment</TableHead>
+                <TableHead>Payment Keys</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map(group => (
+                <TableRow key={`${group.pattern}-${group.paymentKeys.join('-')}`}>
+                  <TableCell>
+                    <span className={`px-2 py-0.5 rounded text-xs ${CONFIDENCE_STYLES[group.confidence]}`}>{group.confidence}</span>
+                  </TableCell>
+                  <TableCell className="text-xs">{PATTERN_LABELS[group.pattern]}</TableCell>
+                  <TableCell className="text-xs">
+                    <div>
+                      {group.payeeName ?? `Payee ${group.payeeId}`}
+                      {group.payeeCount > 1 && <span className="text-gray-500"> +{group.payeeCount - 1} related IDs</span>}
+                    </div>
+                    <div className="text-gray-500">
+                      {group.agencyName ?? `Agency ${group.agencyCode}`}
+                      {group.agencyCount > 1 && ` +${group.agencyCount - 1} more`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatDollars(group.amount)} <span className="text-xs text-gray-500">× {group.paymentCount}</span>
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {group.firstDate === group.lastDate ? group.firstDate : `${group.firstDate} – ${group.lastDate}`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {group.confidence === 'low'
+                      ? <span className="text-gray-500" title="Repeated amounts are often rent or installments">{formatDollars(group.amountBeyondFirst)} to review</span>
+                      : <span className="font-medium" title="Exposure if the repeats are duplicates">{formatDollars(group.amountBeyondFirst)}</span>}
+                  </TableCell>
+                  <TableCell className="text-xs font-mono">{group.paymentKeys.join(', ')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
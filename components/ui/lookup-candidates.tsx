@@ -0,0 +1,36 @@
+'use client';
+
+import type { LookupCandidate } from '@/lib/tools/lookupCandidates';
+
+interface LookupCandidateChipsProps {
+  candidates: LookupCandidate[];
+  // Chips are only clickable when there is something to answer
+  onSelect?: (candidate: LookupCandidate) => void;
+}
+
+const CONFIDENCE_STYLES: Record<LookupCandidate['confidence'], string> = {
+  high: 'border-green-300 bg-green-50 text-green-800',
+  medium: 'border-amber-300 bg-amber-50 text-amber-800',
+  low: 'border-gray-300 bg-gray-50 text-gray-700'
+};
+
+export function LookupCandidateChips({ candidates, onSelect }: LookupCandidateChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {candidates.map(candidate => (
+        <button
+          key={candidate.code}
+          type="button"
+          title={`${candidate.reason} (${candidate.confidence} confidence)`}
+          onClick={onSelect ? () => onSelect(candidate) : undefined}
+          disabled={!onSelect}
+          className={`px-3 py-1 text-xs border rounded-full ${CONFIDENCE_STYLES[candidate.confidence]} ${
+            onSelect ? 'hover:border-blue-500 hover:bg-white cursor-pointer' : 'cursor-default'
+          }`}
+        >
+          {candidate.name} <span className="opacity-60">· {candidate.code}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
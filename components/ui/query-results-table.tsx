@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell } from '@/components/ui/table';
+import { fetchNextQueryPage } from '@/lib/utils/query-pages';
+
+interface QueryResultsTableProps {
+  initialResults: Record<string, unknown>[];
+  nextCursor: string | null;
+  totalRows?: number | null;
+}
+
+function formatCell(column: string, value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  if (typeof value === 'number' && /amount|total/.test(column) && !/count/.test(column)) {
+    return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString();
+  }
+  return String(value);
+}
+
+export function QueryResultsTable({ initialResults, nextCursor, totalRows }: QueryResultsTableProps) {
+  const [rows, setRows] = useState(initialResults);
+  const [cursor, setCursor] = useState(nextCursor);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const columns = Object.keys(rows[0]);
+
+  const loadMore = async () => {
+    if (!cursor) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchNextQueryPage(cursor);
+      setRows(previous => [...previous, ...page.results]);
+      setCursor(page.nextCursor);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 bg-white border rounded">
+      <div className="max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map(column => (
+                <TableHead key={column} className="whitespace-nowrap">
+                  {column.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index}>
+                {columns.map(column => (
+                  <TableCell key={column}>{formatCell(column, row[column])}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-between px-3 py-2 border-t text-xs text-gray-600">
+        <span>
+          Showing {rows.length.toLocaleString()}
+          {totalRows ? ` of ${totalRows.toLocaleString()}` : ''} rows
+        </span>
+        {cursor && (
+          <button
+            onClick={loadMore}
+            disabled={loading}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+      {error && <div className="px-3 pb-2 text-xs text-red-600">{error}</div>}
+    </div>
+  );
+}
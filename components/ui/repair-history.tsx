@@ -0,0 +1,38 @@
+interface SqlRepairAttempt {
+  attempt: number;
+  failedQuery: string;
+  error: string;
+  repairedQuery: string | null;
+  explanation: string;
+}
+
+interface RepairHistoryProps {
+  attempts?: SqlRepairAttempt[];
+}
+
+export function RepairHistory({ attempts }: RepairHistoryProps) {
+  if (!attempts || attempts.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="mt-2">
+      <summary className="text-xs text-gray-600 cursor-pointer hover:text-gray-800">
+        🔧 {attempts.length} automatic repair {attempts.length === 1 ? 'attempt' : 'attempts'}
+      </summary>
+      <ol className="mt-2 space-y-3">
+        {attempts.map(attempt => (
+          <li key={attempt.attempt} className="text-xs border-l-2 border-gray-300 pl-3">
+            <div className="font-medium text-gray-700">Attempt {attempt.attempt}</div>
+            <pre className="mt-1 p-2 bg-gray-900 text-red-300 rounded overflow-x-auto">{attempt.failedQuery}</pre>
+            <div className="mt-1 text-red-600">{attempt.error}</div>
+            <div className="mt-1 text-gray-600 italic">{attempt.explanation}</div>
+            {attempt.repairedQuery && (
+              <pre className="mt-1 p-2 bg-gray-900 text-green-400 rounded overflow-x-auto">{attempt.repairedQuery}</pre>
+            )}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Guard for maintenance routes that rewrite derived tables.
+ * Returns an error response unless the x-admin-token header matches ADMIN_API_TOKEN.
+ */
+export function checkAdminToken(request: NextRequest): NextResponse | null {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    return NextResponse.json(
+      { error: 'ADMIN_API_TOKEN is not configured' },
+      { status: 503 }
+    );
+  }
+  if (request.headers.get('x-admin-token') !== adminToken) {
+    return NextResponse.json(
+      { error: 'Invalid admin token' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
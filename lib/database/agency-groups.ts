@@ -0,0 +1,227 @@
+/**
+ * Agency taxonomy
+ *
+ * Named groups of agency codes - university systems and their campuses, and functional
+ * areas such as the judiciary or the licensing boards - so "all UT schools" resolves to
+ * the full code list rather than a handful of name matches. Groups are maintained here
+ * by hand; membership follows the 2022 data (e.g. Stephen F. Austin was independent).
+ *
+ * Lookup tools return group IDs, and resolvedEntities.agencyGroupIds expands to codes.
+ */
+
+export type AgencyGroupKind = 'system' | 'function';
+
+export interface AgencyGroup {
+  id: string;
+  name: string;
+  kind: AgencyGroupKind;
+  description: string;
+  // Search terms that refer to the whole group. System names are left out on purpose -
+  // "University of Texas System" is also the name of the system office (720)
+  aliases: string[];
+  codes: number[];
+}
+
+// ========================================
+// UNIVERSITY SYSTEMS
+// ========================================
+
+const UNIVERSITY_SYSTEMS: AgencyGroup[] = [
+  {
+    id: 'ut-system',
+    name: 'University of Texas System',
+    kind: 'system',
+    description: 'UT System administration, academic campuses and health institutions',
+    aliases: ['ut system', 'ut schools', 'ut campuses', 'ut universities', 'university of texas schools'],
+    codes: [720, 721, 714, 724, 738, 742, 743, 746, 747, 750, 736, 506, 723, 729, 744, 745, 785]
+  },
+  {
+    id: 'tamu-system',
+    name: 'Texas A&M University System',
+    kind: 'system',
+    description: 'A&M System administration, universities, the Health Science Center and the AgriLife, engineering, forest and transportation agencies',
+    aliases: ['am system', 'a m system', 'tamu system', 'aggie schools', 'am schools', 'a m schools', 'texas am schools'],
+    codes: [710, 711, 709, 713, 715, 718, 732, 749, 751, 757, 760, 761, 764, 770, 555, 556, 557, 576, 712, 716, 727]
+  },
+  {
+    id: 'texas-tech-system',
+    name: 'Texas Tech University System',
+    kind: 'system',
+    description: 'Texas Tech System administration, universities and health sciences centers',
+    aliases: ['texas tech system', 'ttu system', 'texas tech schools'],
+    codes: [768, 733, 739, 774, 737, 735]
+  },
+  {
+    id: 'uh-system',
+    name: 'University of Houston System',
+    kind: 'system',
+    description: 'UH System administration and campuses',
+    aliases: ['uh system', 'uh schools', 'university of houston schools'],
+    codes: [783, 730, 759, 765, 784]
+  },
+  {
+    id: 'unt-system',
+    name: 'University of North Texas System',
+    kind: 'system',
+    description: 'UNT System administration, campuses and the Health Science Center',
+    aliases: ['unt system', 'unt schools'],
+    codes: [769, 752, 763, 773]
+  },
+  {
+    id: 'texas-state-system',
+    name: 'Texas State University System',
+    kind: 'system',
+    description: 'TSUS Board of Regents, universities and the Lamar state colleges',
+    aliases: ['tsus', 'texas state system', 'texas state schools'],
+    codes: [758, 754, 753, 734, 756, 787, 788, 789]
+  }
+];
+
+// ========================================
+// FUNCTIONAL AREAS
+// ========================================
+
+const COURTS_OF_APPEALS = [221, 222, 223, 224, 225, 226, 227, 228, 229, 230, 231, 232, 233, 234, 235];
+
+const FUNCTIONAL_AREAS: AgencyGroup[] = [
+  {
+    id: 'higher-education',
+    name: 'Higher Education',
+    kind: 'function',
+    description: 'Every university system and campus, independent universities, community colleges, TSTC and the Coordinating Board',
+    aliases: ['higher education', 'universities', 'colleges', 'state universities', 'public universities'],
+    codes: [
+      ...new Set([
+        ...UNIVERSITY_SYSTEMS.flatMap(group => group.codes),
+        704, 717, 719, 731, 755, 781
+      ])
+    ]
+  },
+  {
+    id: 'public-education',
+    name: 'Public Education',
+    kind: 'function',
+    description: 'K-12: the Texas Education Agency, the Permanent School Fund Corporation and the state schools for the blind and deaf',
+    aliases: ['public education', 'k 12', 'k12', 'public schools', 'school districts'],
+    codes: [701, 706, 771, 772]
+  },
+  {
+    id: 'judiciary',
+    name: 'Judiciary',
+    kind: 'function',
+    description: 'State courts, the courts of appeals, court administration and judicial agencies',
+    aliases: ['judiciary', 'courts', 'judicial branch', 'state courts'],
+    codes: [201, 211, 212, 213, 215, ...COURTS_OF_APPEALS, 241, 242, 243]
+  },
+  {
+    id: 'courts-of-appeals',
+    name: 'Courts of Appeals',
+    kind: 'function',
+    description: 'The fifteen intermediate courts of appeals',
+    aliases: ['courts of appeals', 'appeals courts', 'appellate courts'],
+    codes: COURTS_OF_APPEALS
+  },
+  {
+    id: 'legislature',
+    name: 'Legislature',
+    kind: 'function',
+    description: 'The Senate, House and legislative agencies',
+    aliases: ['legislature', 'legislative branch', 'legislative agencies'],
+    codes: [101, 102, 103, 104, 105, 107, 116]
+  },
+  {
+    id: 'health-human-services',
+    name: 'Health and Human Services',
+    kind: 'function',
+    description: 'HHSC and the agencies in the health and human services system',
+    aliases: ['health and human services', 'hhs agencies', 'health agencies', 'human services', 'social services'],
+    codes: [529, 530, 537, 538, 539]
+  },
+  {
+    id: 'public-safety-criminal-justice',
+    name: 'Public Safety and Criminal Justice',
+    kind: 'function',
+    description: 'Law enforcement, corrections, juvenile justice, emergency management and the military department',
+    aliases: ['public safety and criminal justice', 'public safety', 'criminal justice', 'law enforcement'],
+    codes: [401, 405, 407, 409, 411, 575, 644, 696]
+  },
+  {
+    id: 'regulatory-boards',
+    name: 'Regulatory Agencies and Licensing Boards',
+    kind: 'function',
+    description: 'Occupational licensing boards and industry regulators',
+    aliases: ['licensing boards', 'regulatory boards', 'regulators', 'regulatory agencies', 'licensing agencies'],
+    codes: [
+      312, 329, 359, 364, 448, 450, 451, 452, 454, 456, 457, 458, 459, 460, 464, 466, 469, 473, 475, 476, 477,
+      481, 503, 504, 507, 508, 510, 512, 513, 514, 515, 520, 533, 578
+    ]
+  },
+  {
+    id: 'natural-resources',
+    name: 'Natural Resources',
+    kind: 'function',
+    description: 'Environment, water, land, energy, agriculture and parks agencies',
+    aliases: ['natural resources', 'environment', 'environmental agencies', 'natural resource agencies'],
+    codes: [305, 455, 535, 551, 554, 580, 582, 592, 802]
+  },
+  {
+    id: 'transportation',
+    name: 'Transportation',
+    kind: 'function',
+    description: 'TxDOT and the Department of Motor Vehicles',
+    aliases: ['transportation', 'transportation agencies'],
+    codes: [601, 608]
+  },
+  {
+    id: 'retirement-systems',
+    name: 'Retirement Systems',
+    kind: 'function',
+    description: 'State pension systems and their oversight board',
+    aliases: ['retirement systems', 'pension systems', 'pensions', 'retirement'],
+    codes: [323, 326, 327, 338]
+  }
+];
+
+export const AGENCY_GROUPS: AgencyGroup[] = [...UNIVERSITY_SYSTEMS, ...FUNCTIONAL_AREAS];
+
+function normalizeGroupTerm(text: string): string {
+  return text.toLowerCase().replace(/[&'’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+const groupsById = new Map(AGENCY_GROUPS.map(group => [group.id, group]));
+
+const groupsByTerm = new Map(
+  AGENCY_GROUPS.flatMap(group => group.aliases.map(term => [normalizeGroupTerm(term), group] as const))
+);
+
+export function getAgencyGroup(id: string): AgencyGroup | undefined {
+  return groupsById.get(id);
+}
+
+/**
+ * Find the group a search term names, e.g. "all UT schools" or "the A&M system".
+ * Only whole-term matches count - partial names are left to the agency matcher.
+ */
+export function findAgencyGroup(searchTerm: string): AgencyGroup | undefined {
+  const term = normalizeGroupTerm(searchTerm).replace(/^(all|every|the)( (of )?the)? /, '');
+  return groupsByTerm.get(term);
+}
+
+/**
+ * Expand group IDs to the union of their agency codes
+ */
+export function expandAgencyGroups(groupIds: string[]): { codes: number[]; unknownIds: string[] } {
+  const codes = new Set<number>();
+  const unknownIds: string[] = [];
+
+  for (const id of groupIds) {
+    const group = groupsById.get(id);
+    if (!group) {
+      unknownIds.push(id);
+      continue;
+    }
+    group.codes.forEach(code => codes.add(code));
+  }
+
+  return { codes: [...codes], unknownIds };
+}
@@ -0,0 +1,40 @@
+/**
+ * Execution for queries that analysis tools build themselves
+ *
+ * The SQL comes from code rather than the model, but it goes through the same checks as
+ * executeQuery: the validator, then the cost gate, so a broad slice is asked for filters
+ * instead of scanning every payment.
+ */
+
+import { evaluateQueryCost } from './cost-gate';
+import { getDataSource, type QueryRow } from './data-source';
+import { formatSqlRejections, validateAnalyticsSql } from './sql-validator';
+
+export interface AnalysisQueryResult {
+  rows: QueryRow[];
+  // Set when the cost gate stopped the query
+  error?: string;
+}
+
+/**
+ * Validate, cost-check and run an analysis query.
+ * Validation and database failures throw; a cost gate refusal is returned as error.
+ */
+export async function runAnalysisQuery(sqlQuery: string, label: string): Promise<AnalysisQueryResult> {
+  const validation = validateAnalyticsSql(sqlQuery);
+  if (!validation.isValid) {
+    throw new Error(`${label} query rejected: ${formatSqlRejections(validation.rejections)}`);
+  }
+
+  const costGate = await evaluateQueryCost(sqlQuery);
+  if (costGate.decision === 'require_filters' || costGate.decision === 'refuse') {
+    return { rows: [], error: costGate.reason };
+  }
+
+  const dataSource = await getDataSource();
+  const { data, error } = await dataSource.executeReadQuery(sqlQuery);
+  if (error || !data) {
+    throw new Error(error?.message ?? `${label} query returned no data`);
+  }
+  return { rows: data };
+}
@@ -0,0 +1,260 @@
+/**
+ * Saved analyses
+ *
+ * A saved analysis is a snapshot of one chat answer - the question, SQL, entity
+ * context, results and chart config - under a stable ID, so findings can be linked
+ * from memos and re-run later at /analysis/[id].
+ *
+ * Stored in the Supabase "savedAnalyses" table, or as JSON files next to the local
+ * snapshots when DATA_SOURCE=local.
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DataSourceError, QueryRow } from './data-source';
+
+// ========================================
+// REQUIRED TABLE (Supabase)
+// ========================================
+//
+// CREATE TABLE "savedAnalyses" (
+//   "id" TEXT PRIMARY KEY,
+//   "title" TEXT NOT NULL,
+//   "question" TEXT,
+//   "sqlQuery" TEXT NOT NULL,
+//   "entityContext" TEXT,
+//   "results" JSONB NOT NULL DEFAULT '[]',
+//   "chartConfig" JSONB,
+//   "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+//   "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+// );
+//
+// ========================================
+
+export interface SavedAnalysis {
+  id: string;
+  title: string;
+  question: string | null;
+  sqlQuery: string;
+  entityContext: string | null;
+  results: QueryRow[];
+  chartConfig: Record<string, unknown> | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AnalysisInput = Pick<SavedAnalysis, 'title' | 'sqlQuery'> &
+  Partial<Pick<SavedAnalysis, 'question' | 'entityContext' | 'results' | 'chartConfig'>>;
+
+export type AnalysisUpdate = Partial<Pick<SavedAnalysis, 'title' | 'question' | 'entityContext' | 'chartConfig'>>;
+
+export interface AnalysisStoreResult<T> {
+  data: T | null;
+  error: DataSourceError | null;
+}
+
+// Summary rows for listings, without the result snapshot
+export type AnalysisSummary = Omit<SavedAnalysis, 'results' | 'chartConfig'>;
+
+export interface AnalysisStore {
+  list(limit: number): Promise<AnalysisStoreResult<AnalysisSummary[]>>;
+  get(id: string): Promise<AnalysisStoreResult<SavedAnalysis>>;
+  create(input: AnalysisInput): Promise<AnalysisStoreResult<SavedAnalysis>>;
+  update(id: string, changes: AnalysisUpdate): Promise<AnalysisStoreResult<SavedAnalysis>>;
+  delete(id: string): Promise<AnalysisStoreResult<{ id: string }>>;
+}
+
+// Snapshots are for reading, not bulk data - the CSV export covers that
+export const MAX_SAVED_RESULT_ROWS = 1000;
+
+// Short URL-safe IDs for links in memos
+function createAnalysisId(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+function isValidAnalysisId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{6,64}$/.test(id);
+}
+
+function newAnalysis(input: AnalysisInput): SavedAnalysis {
+  const now = new Date().toISOString();
+  return {
+    id: createAnalysisId(),
+    title: input.title,
+    question: input.question ?? null,
+    sqlQuery: input.sqlQuery,
+    entityContext: input.entityContext ?? null,
+    results: (input.results ?? []).slice(0, MAX_SAVED_RESULT_ROWS),
+    chartConfig: input.chartConfig ?? null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function toSummary(analysis: SavedAnalysis): AnalysisSummary {
+  const { id, title, question, sqlQuery, entityContext, createdAt, updatedAt } = analysis;
+  return { id, title, question, sqlQuery, entityContext, createdAt, updatedAt };
+}
+
+const notFound = (id: string): DataSourceError => ({ message: `Analysis "${id}" not found`, code: 'NOT_FOUND' });
+
+/**
+ * Supabase table store
+ */
+class SupabaseAnalysisStore implements AnalysisStore {
+  private async client() {
+    const { supabase } = await import('../supabase');
+    return supabase;
+  }
+
+  async list(limit: number): Promise<AnalysisStoreResult<AnalysisSummary[]>> {
+    const supabase = await this.client();
+    const { data, error } = await supabase
+      .from('savedAnalyses')
+      .select('id, title, question, sqlQuery, entityContext, createdAt, updatedAt')
+      .order('createdAt', { ascending: false })
+      .limit(limit);
+
+    return { data: data ?? null, error: error ? { message: error.message, code: error.code } : null };
+  }
+
+  async get(id: string): Promise<AnalysisStoreResult<SavedAnalysis>> {
+    const supabase = await this.client();
+    const { data, error } = await supabase.from('savedAnalyses').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      return { data: null, error: { message: error.message, code: error.code } };
+    }
+    return data ? { data, error: null } : { data: null, error: notFound(id) };
+  }
+
+  async create(input: AnalysisInput): Promise<AnalysisStoreResult<SavedAnalysis>> {
+    const supabase = await this.client();
+    const { data, error } = await supabase.from('savedAnalyses').insert(newAnalysis(input)).select('*').single();
+
+    return { data: data ?? null, error: error ? { message: error.message, code: error.code } : null };
+  }
+
+  async update(id: string, changes: AnalysisUpdate): Promise<AnalysisStoreResult<SavedAnalysis>> {
+    const supabase = await this.client();
+    const { data, error } = await supabase
+      .from('savedAnalyses')
+      .update({ ...changes, updatedAt: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: { message: error.message, code: error.code } };
+    }
+    return data ? { data, error: null } : { data: null, error: notFound(id) };
+  }
+
+  async delete(id: string): Promise<AnalysisStoreResult<{ id: string }>> {
+    const supabase = await this.client();
+    const { data, error } = await supabase.from('savedAnalyses').delete().eq('id', id).select('id');
+
+    if (error) {
+      return { data: null, error: { message: error.message, code: error.code } };
+    }
+    return data && data.length > 0 ? { data: { id }, error: null } : { data: null, error: notFound(id) };
+  }
+}
+
+/**
+ * One JSON file per analysis in <dataDir>/analyses
+ */
+class LocalAnalysisStore implements AnalysisStore {
+  constructor(private readonly directory: string) {}
+
+  async list(limit: number): Promise<AnalysisStoreResult<AnalysisSummary[]>> {
+    try {
+      const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+      const analyses = await Promise.all(
+        files.filter(file => file.endsWith('.json')).map(file => this.read(file.replace(/\.json$/, '')))
+      );
+
+      return {
+        data: analyses
+          .filter((analysis): analysis is SavedAnalysis => analysis !== null)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, limit)
+          .map(toSummary),
+        error: null
+      };
+    } catch (e) {
+      return { data: null, error: { message: (e as Error).message } };
+    }
+  }
+
+  async get(id: string): Promise<AnalysisStoreResult<SavedAnalysis>> {
+    const analysis = await this.read(id);
+    return analysis ? { data: analysis, error: null } : { data: null, error: notFound(id) };
+  }
+
+  async create(input: AnalysisInput): Promise<AnalysisStoreResult<SavedAnalysis>> {
+    const analysis = newAnalysis(input);
+    return this.write(analysis);
+  }
+
+  async update(id: string, changes: AnalysisUpdate): Promise<AnalysisStoreResult<SavedAnalysis>> {
+    const analysis = await this.read(id);
+    if (!analysis) {
+      return { data: null, error: notFound(id) };
+    }
+    return this.write({ ...analysis, ...changes, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: string): Promise<AnalysisStoreResult<{ id: string }>> {
+    if (!isValidAnalysisId(id)) {
+      return { data: null, error: notFound(id) };
+    }
+    try {
+      await fs.unlink(this.filePath(id));
+      return { data: { id }, error: null };
+    } catch {
+      return { data: null, error: notFound(id) };
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private async read(id: string): Promise<SavedAnalysis | null> {
+    if (!isValidAnalysisId(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8')) as SavedAnalysis;
+    } catch {
+      return null;
+    }
+  }
+
+  private async write(analysis: SavedAnalysis): Promise<AnalysisStoreResult<SavedAnalysis>> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.filePath(analysis.id), JSON.stringify(analysis, null, 2));
+      return { data: analysis, error: null };
+    } catch (e) {
+      console.error('Local analysis store error:', e);
+      return { data: null, error: { message: (e as Error).message } };
+    }
+  }
+}
+
+let analysisStore: AnalysisStore | null = null;
+
+/**
+ * Get the analysis store matching the configured data source
+ */
+export function getAnalysisStore(): AnalysisStore {
+  if (!analysisStore) {
+    analysisStore = process.env.DATA_SOURCE === 'local'
+      ? new LocalAnalysisStore(path.resolve(process.cwd(), process.env.LOCAL_DATA_DIR || 'data', 'analyses'))
+      : new SupabaseAnalysisStore();
+  }
+  return analysisStore;
+}
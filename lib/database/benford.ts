@@ -0,0 +1,165 @@
+/**
+ * Benford's law digit analysis of payment amounts
+ *
+ * In naturally occurring amounts the leading digit d appears with probability
+ * log10(1 + 1/d) - a 1 about 30% of the time, a 9 under 5%. Invented or split payments
+ * (just under an approval limit, round numbers) distort the distribution. The slice's
+ * digit counts come from one GROUP BY query; the comparison runs here:
+ *
+ * - chi-square against the expected counts, with the 5% critical value
+ * - mean absolute deviation (MAD) of the proportions, judged on Nigrini's conformity
+ *   ranges, which unlike chi-square don't flag every large sample
+ * - a z-statistic per digit to show which digits are over- or under-represented
+ *
+ * Amounts under $10 have no first-two digits and are left out, as auditors usually do.
+ */
+
+import { runAnalysisQuery } from './analysis-query';
+import {
+  compilePaymentFilters,
+  expandResolvedEntities,
+  loadCompileOptions,
+  QuerySpecError,
+  type CompileOptions,
+  type QuerySpec,
+  type ResolvedEntities
+} from './query-spec';
+
+export const BENFORD_TESTS = ['first_digit', 'first_two_digits'] as const;
+
+export type BenfordTest = typeof BENFORD_TESTS[number];
+
+export type BenfordConformity = 'close' | 'acceptable' | 'marginal' | 'nonconforming';
+
+interface BenfordTestDefinition {
+  digits: number;
+  first: number;
+  last: number;
+  // Chi-square critical value at 5% for last - first degrees of freedom
+  chiSquareCritical: number;
+  // Upper MAD bounds for close, acceptable and marginal conformity (Nigrini)
+  madBounds: [number, number, number];
+}
+
+const BENFORD_TEST_DEFINITIONS: Record<BenfordTest, BenfordTestDefinition> = {
+  first_digit: { digits: 1, first: 1, last: 9, chiSquareCritical: 15.507, madBounds: [0.006, 0.012, 0.015] },
+  first_two_digits: { digits: 2, first: 10, last: 99, chiSquareCritical: 112.022, madBounds: [0.0012, 0.0018, 0.0022] }
+};
+
+export const BENFORD_MIN_AMOUNT = 10;
+
+// |z| above this is significant at 5%
+const Z_CRITICAL = 1.96;
+
+export interface BenfordOptions {
+  test?: BenfordTest;
+  filters?: QuerySpec['filters'];
+  resolvedEntities?: ResolvedEntities;
+}
+
+export interface BenfordDigit {
+  digits: number;
+  count: number;
+  observed: number;
+  expected: number;
+  z: number;
+  significant: boolean;
+}
+
+export interface BenfordResult {
+  test: BenfordTest;
+  sqlQuery: string;
+  sampleSize: number;
+  digits: BenfordDigit[];
+  chiSquare: number;
+  chiSquareCritical: number;
+  mad: number;
+  conformity: BenfordConformity;
+  // Set when the cost gate stopped the query
+  error?: string;
+}
+
+/**
+ * Benford probability of a leading digit group, e.g. 1 -> 0.301, 10 -> 0.041
+ */
+export function benfordProbability(digits: number): number {
+  return Math.log10(1 + 1 / digits);
+}
+
+/**
+ * Digit counts for the slice, one row per leading digit group
+ */
+export function buildBenfordQuery(options: BenfordOptions = {}, compileOptions: CompileOptions = {}): string {
+  const { digits } = BENFORD_TEST_DEFINITIONS[options.test ?? 'first_digit'];
+  const { joins, where } = compilePaymentFilters(options.filters ?? {}, expandResolvedEntities(options.resolvedEntities), [], compileOptions);
+  where.push(`p."Amount" >= ${BENFORD_MIN_AMOUNT}`);
+  const leading = `CAST(LEFT(CAST(p."Amount" AS TEXT), ${digits}) AS INTEGER)`;
+
+  return [
+    `SELECT ${leading} AS leading_digits, COUNT(*) AS payment_count`,
+    'FROM "payments" p',
+    ...joins,
+    `WHERE ${where.join('\n  AND ')}`,
+    `GROUP BY ${leading}`,
+    'ORDER BY leading_digits'
+  ].join('\n');
+}
+
+/**
+ * Compare digit counts with Benford expectations
+ */
+export function scoreBenford(test: BenfordTest, counts: Map<number, number>): Omit<BenfordResult, 'sqlQuery'> {
+  const definition = BENFORD_TEST_DEFINITIONS[test];
+  const sampleSize = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  if (sampleSize === 0) {
+    throw new QuerySpecError(`No payments of $${BENFORD_MIN_AMOUNT} or more in this slice`);
+  }
+
+  const digits: BenfordDigit[] = [];
+  let chiSquare = 0;
+  let absoluteDeviation = 0;
+  for (let value = definition.first; value <= definition.last; value++) {
+    const count = counts.get(value) ?? 0;
+    const expected = benfordProbability(value);
+    const observed = count / sampleSize;
+    // Nigrini's z-statistic with continuity correction
+    const correction = 1 / (2 * sampleSize);
+    const difference = Math.max(Math.abs(observed - expected) - correction, 0);
+    const z = Math.sign(observed - expected) * difference / Math.sqrt(expected * (1 - expected) / sampleSize);
+
+    chiSquare += (count - expected * sampleSize) ** 2 / (expected * sampleSize);
+    absoluteDeviation += Math.abs(observed - expected);
+    digits.push({ digits: value, count, observed, expected, z, significant: Math.abs(z) > Z_CRITICAL });
+  }
+
+  const mad = absoluteDeviation / digits.length;
+  const [close, acceptable, marginal] = definition.madBounds;
+  const conformity: BenfordConformity = mad <= close ? 'close' : mad <= acceptable ? 'acceptable' : mad <= marginal ? 'marginal' : 'nonconforming';
+
+  return { test, sampleSize, digits, chiSquare, chiSquareCritical: definition.chiSquareCritical, mad, conformity };
+}
+
+/**
+ * Run a Benford test on the payments in a slice
+ */
+export async function analyzeBenford(options: BenfordOptions = {}): Promise<BenfordResult> {
+  const test = options.test ?? 'first_digit';
+  const sqlQuery = buildBenfordQuery({ ...options, test }, await loadCompileOptions());
+  const { rows, error } = await runAnalysisQuery(sqlQuery, 'Benford');
+  if (error) {
+    return {
+      test,
+      sqlQuery,
+      sampleSize: 0,
+      digits: [],
+      chiSquare: 0,
+      chiSquareCritical: BENFORD_TEST_DEFINITIONS[test].chiSquareCritical,
+      mad: 0,
+      conformity: 'close',
+      error
+    };
+  }
+
+  const counts = new Map(rows.map(row => [Number(row.leading_digits), Number(row.payment_count)]));
+  return { ...scoreBenford(test, counts), sqlQuery };
+}
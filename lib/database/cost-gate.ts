@@ -0,0 +1,369 @@
+/**
+ * EXPLAIN-based cost gate for generated SQL
+ *
+ * Queries over 750K payments joined to the 2.2M-row payeeCodes table can run for the
+ * whole 90s statement_timeout. Before execution the planner estimate is compared with
+ * configurable thresholds and the query is either allowed, sent back to the model to add
+ * filters, refused, or downgraded to the pre-aggregated monthly summary when the query
+ * only needs monthly totals.
+ *
+ * Supabase needs the summary as a materialized view (refresh after each data load):
+ *
+ * CREATE MATERIALIZED VIEW "paymentsMonthlySummary" AS
+ *   SELECT DATE_TRUNC('month', "date")::date AS "month", "Agency_CD", "CatCode",
+ *          "Appd_Fund_Num", "Comptroller_Object_Num",
+ *          SUM("Amount") AS "total_amount", COUNT(*) AS "payment_count"
+ *   FROM "payments"
+ *   GROUP BY 1, 2, 3, 4, 5;
+ */
+
+import { getDataSource, type QueryPlanEstimate } from './data-source';
+import { parseSql, sqlifyAst, walkAst } from './sql-validator';
+import { SCHEMA_TABLES } from './schema-context';
+
+export const PAYMENTS_MONTHLY_SUMMARY = 'paymentsMonthlySummary';
+
+export const PAYMENTS_MONTHLY_SUMMARY_SQL = `
+  SELECT CAST(DATE_TRUNC('month', "date") AS DATE) AS "month", "Agency_CD", "CatCode",
+         "Appd_Fund_Num", "Comptroller_Object_Num",
+         SUM("Amount") AS "total_amount", COUNT(*) AS "payment_count"
+  FROM "payments"
+  GROUP BY 1, 2, 3, 4, 5`;
+
+export interface CostGateThresholds {
+  // Planner cost above which the model must add filters (PostgreSQL)
+  requireFiltersCost: number;
+  // Planner cost above which the query is refused (PostgreSQL)
+  refuseCost: number;
+  // Scanned-row equivalents, used when the backend reports no cost (DuckDB)
+  requireFiltersScannedRows: number;
+  refuseScannedRows: number;
+}
+
+export const COST_GATE_THRESHOLDS: CostGateThresholds = {
+  requireFiltersCost: Number(process.env.COST_GATE_FILTER_COST) || 1_000_000,
+  refuseCost: Number(process.env.COST_GATE_REFUSE_COST) || 10_000_000,
+  requireFiltersScannedRows: Number(process.env.COST_GATE_FILTER_ROWS) || 5_000_000,
+  refuseScannedRows: Number(process.env.COST_GATE_REFUSE_ROWS) || 50_000_000
+};
+
+export type CostGateDecision = 'allow' | 'require_filters' | 'downgrade' | 'refuse';
+
+export interface CostGateResult {
+  decision: CostGateDecision;
+  // Plain-language explanation the assistant can pass on
+  reason: string;
+  estimate: QueryPlanEstimate | null;
+  thresholds: CostGateThresholds;
+  // Query to run instead when decision is 'downgrade'
+  downgradedQuery?: string;
+}
+
+type AstNode = Record<string, unknown>;
+
+// Summary dimensions that can be used anywhere in a downgraded query
+const SUMMARY_DIMENSIONS = ['Agency_CD', 'CatCode', 'Appd_Fund_Num', 'Comptroller_Object_Num'];
+const SUMMARY_JOIN_TABLES = ['agencyCodes', 'categoryCodes', 'applicationFundCodes', 'comptrollerCodes'];
+const MONTH_GRAINS = ['MONTH', 'QUARTER', 'YEAR'];
+
+function columnName(node: AstNode): string | null {
+  const column = node.column as string | { expr?: { value?: string } };
+  return typeof column === 'string' ? column : column?.expr?.value ?? null;
+}
+
+function setColumnName(node: AstNode, name: string): void {
+  node.column = { expr: { type: 'double_quote_string', value: name } };
+}
+
+function readDateLiteral(node: AstNode | undefined): Date | null {
+  const value = node?.value;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function isFirstOfMonth(date: Date): boolean {
+  return date.getUTCDate() === 1;
+}
+
+function isLastOfMonth(date: Date): boolean {
+  const nextDay = new Date(date.getTime() + 24 * 60 * 60 * 1000);
+  return nextDay.getUTCDate() === 1;
+}
+
+/**
+ * Rewrite a query to read the monthly summary instead of payments, when the query
+ * groups (or only outputs aggregates), groups and filters on summary dimensions, uses
+ * whole months and aggregates Amount with SUM or rows with COUNT(*) / COUNT(key).
+ * Returns null when the rewrite would change results: summary rows are buckets of
+ * payments, so row-level output or any other aggregate would read the buckets.
+ */
+export function rewriteToMonthlySummary(sqlQuery: string): string | null {
+  let statement: AstNode;
+  try {
+    const statements = parseSql(sqlQuery.trim().replace(/;+\s*$/, ''));
+    if (statements.length !== 1) {
+      return null;
+    }
+    statement = statements[0];
+  } catch {
+    return null;
+  }
+
+  if (statement.with || statement._next) {
+    return null;
+  }
+
+  const from = (statement.from as AstNode[] | null) ?? [];
+  const paymentsSources = from.filter(source => source.table === 'payments');
+  if (paymentsSources.length !== 1) {
+    return null;
+  }
+  const otherSources = from.filter(source => source.table !== 'payments');
+  if (otherSources.some(source => typeof source.table !== 'string' || !SUMMARY_JOIN_TABLES.includes(source.table))) {
+    return null;
+  }
+
+  // Any nested FROM (subqueries) makes alias resolution ambiguous
+  let nestedFrom = false;
+  walkAst(statement.columns, node => { if (Array.isArray(node.from)) nestedFrom = true; });
+  walkAst(statement.where, node => { if (Array.isArray(node.from)) nestedFrom = true; });
+  walkAst(statement.having, node => { if (Array.isArray(node.from)) nestedFrom = true; });
+  if (nestedFrom) {
+    return null;
+  }
+
+  const payments = paymentsSources[0];
+  const paymentsRef = (payments.as as string | null) ?? 'payments';
+  const otherColumns = new Set(otherSources.flatMap(source => SCHEMA_TABLES[source.table as string] ?? []));
+
+  const isPaymentsColumn = (node: AstNode | undefined): boolean => {
+    if (!node || node.type !== 'column_ref') {
+      return false;
+    }
+    const name = columnName(node);
+    if (!name || name === '*') {
+      return false;
+    }
+    if (node.table === paymentsRef) {
+      return true;
+    }
+    return node.table === null && SCHEMA_TABLES.payments.includes(name) && !otherColumns.has(name);
+  };
+
+  // Every payments column reference must be "claimed" by an allowed usage
+  const paymentsRefs = new Set<AstNode>();
+  walkAst(statement, node => {
+    if (isPaymentsColumn(node)) {
+      paymentsRefs.add(node);
+    }
+  });
+
+  const claimed = new Set<AstNode>();
+  const mutations: Array<() => void> = [];
+  let unsupported = false;
+
+  // Without GROUP BY every output column must be an aggregate, or each bucket becomes a row
+  const aggregates = (node: unknown): boolean => {
+    let found = false;
+    walkAst(node, child => { if (child.type === 'aggr_func') found = true; });
+    return found;
+  };
+  const columns = Array.isArray(statement.columns) ? statement.columns as AstNode[] : [];
+  if (!statement.groupby && (columns.length === 0 || !columns.every(column => aggregates(column.expr)))) {
+    return null;
+  }
+
+  // Payments columns outside WHERE and aggregates must be GROUP BY dimensions
+  const groupedColumns = new Set<string>();
+  walkAst(statement.groupby, node => { if (isPaymentsColumn(node)) groupedColumns.add(columnName(node)!); });
+  const filterRefs = new Set<AstNode>();
+  walkAst(statement.where, node => { if (isPaymentsColumn(node)) filterRefs.add(node); });
+  const aggregatedRefs = new Set<AstNode>();
+
+  const claimDateComparison = (column: AstNode | undefined, literal: AstNode | undefined, operator: string): boolean => {
+    if (!isPaymentsColumn(column) || columnName(column!) !== 'date') {
+      return false;
+    }
+    const date = readDateLiteral(literal);
+    if (!date) {
+      return false;
+    }
+    const wholeMonth = ((operator === '>=' || operator === '<') && isFirstOfMonth(date))
+      || ((operator === '<=' || operator === '>') && isLastOfMonth(date));
+    if (wholeMonth) {
+      claimed.add(column!);
+    }
+    return wholeMonth;
+  };
+
+  walkAst(statement, node => {
+    if (isPaymentsColumn(node) && SUMMARY_DIMENSIONS.includes(columnName(node)!)) {
+      claimed.add(node);
+      return;
+    }
+
+    if (node.type === 'aggr_func') {
+      const args = node.args as { expr?: AstNode; distinct?: unknown } | undefined;
+      const name = String(node.name).toUpperCase();
+      walkAst(args, child => { if (isPaymentsColumn(child)) aggregatedRefs.add(child); });
+      // COUNT(DISTINCT ...), COUNT of a dimension, AVG, MIN, MAX and window aggregates read buckets
+      if (args?.distinct || node.over) {
+        unsupported = true;
+        return;
+      }
+      if (name === 'SUM' && isPaymentsColumn(args?.expr) && columnName(args!.expr!) === 'Amount') {
+        const column = args!.expr!;
+        claimed.add(column);
+        mutations.push(() => setColumnName(column, 'total_amount'));
+      } else if (name === 'COUNT' && (args?.expr?.type === 'star' || (isPaymentsColumn(args?.expr) && columnName(args!.expr!) === 'key'))) {
+        if (args?.expr?.type !== 'star') {
+          claimed.add(args!.expr!);
+        }
+        mutations.push(() => {
+          node.name = 'SUM';
+          node.args = {
+            expr: {
+              type: 'column_ref',
+              table: paymentsRef,
+              column: { expr: { type: 'double_quote_string', value: 'payment_count' } }
+            }
+          };
+        });
+      } else {
+        unsupported = true;
+      }
+      return;
+    }
+
+    if (node.type === 'function') {
+      const parts = (node.name as { name?: Array<{ value: string }> } | undefined)?.name ?? [];
+      const args = (node.args as { value?: AstNode[] } | undefined)?.value ?? [];
+      const grain = String(args[0]?.value ?? '').toUpperCase();
+      if (parts[0]?.value.toUpperCase() === 'DATE_TRUNC' && MONTH_GRAINS.includes(grain) && isPaymentsColumn(args[1]) && columnName(args[1]) === 'date') {
+        claimed.add(args[1]);
+      }
+      return;
+    }
+
+    if (node.type === 'extract') {
+      const args = node.args as { field?: string; source?: AstNode } | undefined;
+      if (MONTH_GRAINS.includes(String(args?.field).toUpperCase()) && isPaymentsColumn(args?.source) && columnName(args!.source!) === 'date') {
+        claimed.add(args!.source!);
+      }
+      return;
+    }
+
+    if (node.type === 'binary_expr') {
+      const operator = String(node.operator).toUpperCase();
+      const left = node.left as AstNode | undefined;
+      const right = node.right as AstNode | undefined;
+      if (operator === 'BETWEEN') {
+        const [low, high] = (right?.value as AstNode[] | undefined) ?? [];
+        if (isPaymentsColumn(left) && columnName(left!) === 'date') {
+          const lowDate = readDateLiteral(low);
+          const highDate = readDateLiteral(high);
+          if (lowDate && highDate && isFirstOfMonth(lowDate) && isLastOfMonth(highDate)) {
+            claimed.add(left!);
+          }
+        }
+      } else if (['>=', '<', '<=', '>'].includes(operator)) {
+        if (!claimDateComparison(left, right, operator)) {
+          // Flip "'2022-03-01' <= p.date" into "p.date >= '2022-03-01'"
+          const flipped: Record<string, string> = { '>=': '<=', '<=': '>=', '<': '>', '>': '<' };
+          claimDateComparison(right, left, flipped[operator]);
+        }
+      }
+    }
+  });
+
+  paymentsRefs.forEach(ref => {
+    if (!claimed.has(ref)) {
+      unsupported = true;
+    } else if (!filterRefs.has(ref) && !aggregatedRefs.has(ref) && !groupedColumns.has(columnName(ref)!)) {
+      unsupported = true;
+    }
+  });
+
+  if (unsupported) {
+    return null;
+  }
+
+  // Apply the rewrite
+  mutations.forEach(mutate => mutate());
+  paymentsRefs.forEach(ref => {
+    if (columnName(ref) === 'date') {
+      setColumnName(ref, 'month');
+    }
+  });
+  payments.table = PAYMENTS_MONTHLY_SUMMARY;
+  payments.as = paymentsRef;
+
+  return sqlifyAst(statement);
+}
+
+/**
+ * Estimate a query's cost and decide whether it should run
+ */
+export async function evaluateQueryCost(
+  sqlQuery: string,
+  thresholds: CostGateThresholds = COST_GATE_THRESHOLDS
+): Promise<CostGateResult> {
+  const dataSource = await getDataSource();
+  const { plan, error } = await dataSource.explainQuery(sqlQuery);
+
+  if (!plan) {
+    // Don't block queries when the planner can't be reached
+    return {
+      decision: 'allow',
+      reason: `Cost estimate unavailable (${error?.message ?? 'no plan returned'}), running without the cost gate`,
+      estimate: null,
+      thresholds
+    };
+  }
+
+  const usesCost = plan.totalCost !== null;
+  const measure = usesCost ? plan.totalCost! : plan.scannedRows;
+  const filterLimit = usesCost ? thresholds.requireFiltersCost : thresholds.requireFiltersScannedRows;
+  const refuseLimit = usesCost ? thresholds.refuseCost : thresholds.refuseScannedRows;
+  const measureText = usesCost
+    ? `estimated cost ${Math.round(measure).toLocaleString()}`
+    : `an estimated ${measure.toLocaleString()} scanned rows`;
+
+  if (measure <= filterLimit) {
+    return {
+      decision: 'allow',
+      reason: `Query is within limits (${measureText})`,
+      estimate: plan,
+      thresholds
+    };
+  }
+
+  const downgradedQuery = rewriteToMonthlySummary(sqlQuery);
+  if (downgradedQuery) {
+    return {
+      decision: 'downgrade',
+      reason: `Query is expensive (${measureText}), so it was answered from the pre-aggregated monthly summary instead of individual payments. The query only needs monthly totals and payment counts by agency, category, fund and object, which the summary holds exactly.`,
+      estimate: plan,
+      thresholds,
+      downgradedQuery
+    };
+  }
+
+  if (measure > refuseLimit) {
+    return {
+      decision: 'refuse',
+      reason: `Query is too expensive to run (${measureText}, limit ${refuseLimit.toLocaleString()}). Narrow it with a date range or agency filter, aggregate instead of listing payments, or avoid joining "payeeCodes" when payee names are not needed.`,
+      estimate: plan,
+      thresholds
+    };
+  }
+
+  return {
+    decision: 'require_filters',
+    reason: `Query would scan too much data (${measureText}, limit ${filterLimit.toLocaleString()}). Add filters - a date range, agency, category or payee - and regenerate the query.`,
+    estimate: plan,
+    thresholds
+  };
+}
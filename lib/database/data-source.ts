@@ -0,0 +1,102 @@
+/**
+ * Data Source abstraction for the Texas DOGE database
+ *
+ * Tools and routes go through getDataSource() instead of calling Supabase directly,
+ * so the same code can run against the hosted database or a local DuckDB copy
+ * loaded from Parquet/CSV snapshots (DATA_SOURCE=local).
+ */
+
+export interface DataSourceError {
+  message: string;
+  code?: string;
+}
+
+// Mirrors the { data, error } shape Supabase responses already use
+export interface DataSourceResult<T> {
+  data: T[] | null;
+  error: DataSourceError | null;
+}
+
+export type QueryRow = Record<string, unknown>;
+
+export interface PayeeMatch {
+  payee_name: string;
+  payee_id: string;
+}
+
+// Planner estimate from EXPLAIN, normalized across backends
+export interface QueryPlanEstimate {
+  // Planner cost units (PostgreSQL only)
+  totalCost: number | null;
+  // Rows the query is expected to return
+  estimatedRows: number;
+  // Rows read by all table scans in the plan
+  scannedRows: number;
+}
+
+// Code tables that can be fetched whole
+export type ReferenceTableName =
+  | 'agencyCodes'
+  | 'categoryCodes'
+  | 'applicationFundCodes'
+  | 'comptrollerCodes'
+  | 'fundCodes'
+  | 'appropriationNameCodes';
+
+export interface DataSource {
+  readonly name: 'supabase' | 'local';
+
+  /** Run a read-only analytics query (already validated by the caller) */
+  executeReadQuery(sqlQuery: string): Promise<DataSourceResult<QueryRow>>;
+
+  /** Planner estimate for a query without running it */
+  explainQuery(sqlQuery: string): Promise<{ plan: QueryPlanEstimate | null; error: DataSourceError | null }>;
+
+  /** Case-insensitive payee name search */
+  searchPayees(searchTerm: string, limit: number): Promise<DataSourceResult<PayeeMatch>>;
+
+  /** Fetch every row of a code table */
+  fetchReferenceTable(table: ReferenceTableName): Promise<DataSourceResult<QueryRow>>;
+}
+
+let dataSource: DataSource | null = null;
+// Shared by concurrent first callers so only one data source is created
+let pendingDataSource: Promise<DataSource> | null = null;
+
+async function createDataSource(): Promise<DataSource> {
+  if (process.env.DATA_SOURCE === 'local') {
+    const { LocalDataSource } = await import('./local-data-source');
+    return new LocalDataSource(process.env.LOCAL_DATA_DIR || 'data');
+  }
+  const { SupabaseDataSource } = await import('./supabase-data-source');
+  return new SupabaseDataSource();
+}
+
+/**
+ * Get the configured data source (DATA_SOURCE=supabase|local, default supabase)
+ */
+export async function getDataSource(): Promise<DataSource> {
+  if (dataSource) {
+    return dataSource;
+  }
+
+  if (!pendingDataSource) {
+    pendingDataSource = createDataSource()
+      .then(source => {
+        dataSource = source;
+        return source;
+      })
+      .finally(() => {
+        pendingDataSource = null;
+      });
+  }
+
+  return pendingDataSource;
+}
+
+/**
+ * Replace the active data source (for scripts and tests)
+ */
+export function setDataSource(source: DataSource | null): void {
+  dataSource = source;
+}
@@ -0,0 +1,287 @@
+/**
+ * Duplicate and near-duplicate payment detection
+ *
+ * Three patterns, each producing groups of payments that may have been paid twice:
+ *
+ * - same_payee_window: one payee paid the same amount more than once within a few days.
+ * - related_payees: one agency paid the same amount within a few days to different payee
+ *   IDs of one vendor (payeeVendorClusters) - a vendor set up twice is a classic route
+ *   to double payment. Skipped until the cluster table is built.
+ * - repeated_amount: one agency paid one payee the same exact amount many times over the
+ *   year. Often legitimate (rent, installments), so always low confidence and a review
+ *   candidate rather than exposure.
+ *
+ * Day windows are chained: payments are sorted by date and a group continues while
+ * each payment is within the window of the previous one (gaps and islands), so it runs
+ * as a window-function query instead of a self-join on payments. Each group carries the
+ * amount paid beyond its first payment. A payment can fall in groups of several patterns,
+ * so totals across groups count each payment once (totalDuplicateAmounts).
+ */
+
+import { z } from 'zod';
+import { runAnalysisQuery } from './analysis-query';
+import type { QueryRow } from './data-source';
+import {
+  compilePaymentFilters,
+  expandResolvedEntities,
+  loadCompileOptions,
+  querySpecSchema,
+  resolvedEntitiesSchema,
+  QuerySpecError,
+  type CompileOptions
+} from './query-spec';
+import { formatDate } from './row-dates';
+import { VENDOR_CLUSTER_TABLE } from './vendor-clusters';
+
+export const DUPLICATE_PATTERNS = ['same_payee_window', 'related_payees', 'repeated_amount'] as const;
+export const DUPLICATE_CONFIDENCE = ['high', 'medium', 'low'] as const;
+
+export type DuplicatePattern = typeof DUPLICATE_PATTERNS[number];
+export type DuplicateConfidence = typeof DUPLICATE_CONFIDENCE[number];
+
+export const DUPLICATE_DEFAULTS = {
+  windowDays: 7,
+  // Small repeated amounts (fees, reimbursements) are mostly noise
+  minAmount: 1000,
+  minRepeats: 4,
+  limit: 50,
+  maxLimit: 200
+};
+
+// Shared by detectDuplicatePayments and POST /api/duplicate-payments
+export const duplicateOptionsSchema = z.object({
+  patterns: z.array(z.enum(DUPLICATE_PATTERNS)).optional()
+    .describe('same_payee_window: same payee and amount within windowDays; related_payees: same amount to different payee IDs of one vendor from one agency within windowDays; repeated_amount: one agency paying one payee the same amount minRepeats+ times. Default: all three'),
+  windowDays: z.number().optional().describe(`Days between payments that still count as a repeat (default ${DUPLICATE_DEFAULTS.windowDays})`),
+  minAmount: z.number().optional().describe(`Ignore payments under this many dollars (default ${DUPLICATE_DEFAULTS.minAmount})`),
+  minRepeats: z.number().optional().describe(`Payments needed for a repeated_amount group (default ${DUPLICATE_DEFAULTS.minRepeats})`),
+  limit: z.number().optional().describe(`Groups to return (default ${DUPLICATE_DEFAULTS.limit}, at most ${DUPLICATE_DEFAULTS.maxLimit})`),
+  filters: querySpecSchema.shape.filters.optional().describe('Which payments to check - same filters as generateAnalyticsQuery'),
+  resolvedEntities: resolvedEntitiesSchema.optional()
+});
+
+export type DuplicateOptions = z.infer<typeof duplicateOptionsSchema>;
+
+export interface DuplicateGroup {
+  pattern: DuplicatePattern;
+  confidence: DuplicateConfidence;
+  agencyCode: number;
+  agencyName: string | null;
+  agencyCount: number;
+  payeeId: number;
+  payeeName: string | null;
+  payeeCount: number;
+  amount: number;
+  paymentCount: number;
+  firstDate: string;
+  lastDate: string;
+  // Paid beyond the first payment: exposure for high and medium confidence groups, an
+  // amount to review for repeated_amount groups
+  amountBeyondFirst: number;
+  paymentKeys: number[];
+}
+
+export interface DuplicateAmounts {
+  // Likely overpaid, by confidence
+  exposure: Record<Exclude<DuplicateConfidence, 'low'>, number>;
+  // Paid beyond the first payment in repeated_amount groups, less payments already counted as exposure
+  reviewAmount: number;
+}
+
+export interface DuplicateSearch {
+  // Top groups, LIMITed
+  sqlQuery: string;
+  // Every group, for CSV export
+  exportQuery: string;
+  groups: DuplicateGroup[];
+  // Requested patterns that couldn't run, i.e. related_payees without the cluster table
+  skippedPatterns: DuplicatePattern[];
+  // Set when the cost gate stopped the query
+  error?: string;
+}
+
+function nonNegativeNumber(value: number | undefined, fallback: number, field: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!Number.isFinite(value) || value < 0) {
+    throw new QuerySpecError(`${field} must be zero or more, got ${value}`);
+  }
+  return value;
+}
+
+// Columns every pattern's group row selects, over a CTE aliased g
+function groupColumns(pattern: DuplicatePattern, confidence: string): string {
+  return `'${pattern}' AS pattern,
+    ${confidence} AS confidence,
+    MIN(g."Agency_CD") AS agency_code,
+    COUNT(DISTINCT g."Agency_CD") AS agency_count,
+    MIN(g."Payee_id") AS payee_id,
+    COUNT(DISTINCT g."Payee_id") AS payee_count,
+    g."Amount" AS amount,
+    COUNT(*) AS payment_count,
+    MIN(g."date") AS first_date,
+    MAX(g."date") AS last_date,
+    (COUNT(*) - 1) * g."Amount" AS amount_beyond_first,
+    STRING_AGG(CAST(g."key" AS TEXT), ', ') AS payment_keys`;
+}
+
+function columnList(alias: string, columns: string[]): string {
+  return columns.map(column => `${alias}."${column}"`).join(', ');
+}
+
+// Marks payments more than windowDays after the previous one in the partition
+function windowStarts(source: string, partition: string[], windowDays: number): string {
+  return `SELECT w.*,
+    CASE WHEN w."date" - LAG(w."date") OVER (PARTITION BY ${columnList('w', partition)} ORDER BY w."date", w."key") <= ${windowDays} THEN 0 ELSE 1 END AS starts_group
+  FROM ${source} w`;
+}
+
+// Numbers the chained groups within each partition
+function groupNumbers(source: string, partition: string[]): string {
+  return `SELECT s.*,
+    SUM(s.starts_group) OVER (PARTITION BY ${columnList('s', partition)} ORDER BY s."date", s."key") AS group_number
+  FROM ${source} s`;
+}
+
+function requestedPatterns(options: DuplicateOptions): DuplicatePattern[] {
+  return [...new Set(options.patterns && options.patterns.length > 0 ? options.patterns : DUPLICATE_PATTERNS)];
+}
+
+/**
+ * Build the duplicate group query; limit is left off for the export query. related_payees
+ * is left out when compileOptions.vendorClusters is false.
+ */
+export function buildDuplicateQuery(options: DuplicateOptions = {}, limit?: number, compileOptions: CompileOptions = {}): string {
+  const patterns = requestedPatterns(options)
+    .filter(pattern => pattern !== 'related_payees' || compileOptions.vendorClusters !== false);
+  if (patterns.length === 0) {
+    throw new QuerySpecError('related_payees needs the vendor clusters - run npm run build:vendor-clusters first');
+  }
+  const windowDays = Math.floor(nonNegativeNumber(options.windowDays, DUPLICATE_DEFAULTS.windowDays, 'windowDays'));
+  const minAmount = nonNegativeNumber(options.minAmount, DUPLICATE_DEFAULTS.minAmount, 'minAmount');
+  const minRepeats = Math.max(Math.floor(nonNegativeNumber(options.minRepeats, DUPLICATE_DEFAULTS.minRepeats, 'minRepeats')), 2);
+
+  // Pooled "Confidential" recipients would match each other constantly
+  const filters = { ...options.filters, excludeConfidentialPayees: true };
+  const { joins, where } = compilePaymentFilters(filters, expandResolvedEntities(options.resolvedEntities), [], compileOptions);
+  where.push(`p."Amount" >= ${minAmount}`);
+
+  const ctes = [`base AS (
+  SELECT p."key", p."date", p."Amount", p."Agency_CD", p."Payee_id", p."Comptroller_Object_Num"
+  FROM "payments" p
+${joins.map(join => `  ${join}\n`).join('')}  WHERE ${where.join('\n    AND ')}
+)`];
+  const selects: string[] = [];
+
+  if (patterns.includes('same_payee_window')) {
+    const partition = ['Payee_id', 'Amount'];
+    ctes.push(`same_payee_starts AS (\n  ${windowStarts('base', partition, windowDays)}\n)`);
+    ctes.push(`same_payee_groups AS (\n  ${groupNumbers('same_payee_starts', partition)}\n)`);
+    selects.push(`SELECT ${groupColumns('same_payee_window', `CASE WHEN COUNT(DISTINCT g."Agency_CD") = 1 AND COUNT(DISTINCT g."Comptroller_Object_Num") = 1 THEN 'high' ELSE 'medium' END`)}
+  FROM same_payee_groups g
+  GROUP BY g."Payee_id", g."Amount", g.group_number
+  HAVING COUNT(*) >= 2`);
+  }
+
+  if (patterns.includes('related_payees')) {
+    const partition = ['Vendor_id', 'Agency_CD', 'Amount'];
+    ctes.push(`vendor_payments AS (
+  SELECT b.*, vc."Vendor_id"
+  FROM base b
+  JOIN "${VENDOR_CLUSTER_TABLE}" vc ON vc."Payee_id" = b."Payee_id"
+)`);
+    ctes.push(`related_starts AS (\n  ${windowStarts('vendor_payments', partition, windowDays)}\n)`);
+    ctes.push(`related_groups AS (\n  ${groupNumbers('related_starts', partition)}\n)`);
+    selects.push(`SELECT ${groupColumns('related_payees', `CASE WHEN COUNT(DISTINCT g."Comptroller_Object_Num") = 1 THEN 'high' ELSE 'medium' END`)}
+  FROM related_groups g
+  GROUP BY g."Vendor_id", g."Agency_CD", g."Amount", g.group_number
+  HAVING COUNT(DISTINCT g."Payee_id") >= 2`);
+  }
+
+  if (patterns.includes('repeated_amount')) {
+    selects.push(`SELECT ${groupColumns('repeated_amount', `'low'`)}
+  FROM base g
+  GROUP BY g."Agency_CD", g."Payee_id", g."Amount"
+  HAVING COUNT(*) >= ${minRepeats}`);
+  }
+
+  ctes.push(`duplicate_groups AS (\n  ${selects.join('\n  UNION ALL\n  ')}\n)`);
+
+  const lines = [
+    `WITH ${ctes.join(',\n')}`,
+    `SELECT d.pattern, d.confidence, d.agency_code, ac."Agency_Name" AS agency_name, d.agency_count,
+  d.payee_id, pc."Payee_Name" AS payee_name, d.payee_count, d.amount, d.payment_count,
+  d.first_date, d.last_date, d.amount_beyond_first, d.payment_keys`,
+    'FROM duplicate_groups d',
+    'LEFT JOIN "agencyCodes" ac ON ac."Agency_CD" = d.agency_code',
+    'LEFT JOIN "payeeCodes" pc ON pc."Payee_id" = d.payee_id',
+    `ORDER BY CASE d.confidence WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END, d.amount_beyond_first DESC, d.payee_id, d.first_date`,
+    limit !== undefined ? `LIMIT ${limit}` : ''
+  ].filter(Boolean);
+
+  return lines.join('\n');
+}
+
+function toDuplicateGroup(row: QueryRow): DuplicateGroup {
+  return {
+    pattern: row.pattern as DuplicatePattern,
+    confidence: row.confidence as DuplicateConfidence,
+    agencyCode: Number(row.agency_code),
+    agencyName: row.agency_name === null || row.agency_name === undefined ? null : String(row.agency_name),
+    agencyCount: Number(row.agency_count),
+    payeeId: Number(row.payee_id),
+    payeeName: row.payee_name === null || row.payee_name === undefined ? null : String(row.payee_name),
+    payeeCount: Number(row.payee_count),
+    amount: Number(row.amount),
+    paymentCount: Number(row.payment_count),
+    firstDate: formatDate(row.first_date),
+    lastDate: formatDate(row.last_date),
+    amountBeyondFirst: Number(row.amount_beyond_first),
+    paymentKeys: String(row.payment_keys ?? '').split(',').map(Number).filter(Number.isFinite).sort((a, b) => a - b)
+  };
+}
+
+const CONFIDENCE_RANK: Record<DuplicateConfidence, number> = { high: 1, medium: 2, low: 3 };
+
+/**
+ * Exposure and review totals over groups, counting each payment once. A payment in
+ * several groups counts toward the most confident one; a group overlapping a counted
+ * group already had its first payment set aside there.
+ */
+export function totalDuplicateAmounts(groups: DuplicateGroup[]): DuplicateAmounts {
+  const totals: DuplicateAmounts = { exposure: { high: 0, medium: 0 }, reviewAmount: 0 };
+  const counted = new Set<number>();
+  const ranked = [...groups].sort((a, b) => CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence]);
+
+  for (const group of ranked) {
+    const fresh = group.paymentKeys.filter(key => !counted.has(key));
+    if (fresh.length === 0) {
+      continue;
+    }
+    const beyondFirst = group.amount * (fresh.length < group.paymentKeys.length ? fresh.length : fresh.length - 1);
+    fresh.forEach(key => counted.add(key));
+    if (group.confidence === 'low') {
+      totals.reviewAmount += beyondFirst;
+    } else {
+      totals.exposure[group.confidence] += beyondFirst;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Find likely duplicate payment groups, high confidence and largest amount beyond the first payment first
+ */
+export async function findDuplicatePayments(options: DuplicateOptions = {}): Promise<DuplicateSearch> {
+  const limit = options.limit !== undefined && Number.isFinite(options.limit)
+    ? Math.min(Math.max(Math.floor(options.limit), 1), DUPLICATE_DEFAULTS.maxLimit)
+    : DUPLICATE_DEFAULTS.limit;
+  const compileOptions = await loadCompileOptions();
+  const skippedPatterns = compileOptions.vendorClusters ? [] : requestedPatterns(options).filter(pattern => pattern === 'related_payees');
+  const sqlQuery = buildDuplicateQuery(options, limit, compileOptions);
+  const exportQuery = buildDuplicateQuery(options, undefined, compileOptions);
+
+  const { rows, error } = await runAnalysisQuery(sqlQuery, 'Duplicate payment');
+  return { sqlQuery, exportQuery, groups: rows.map(toDuplicateGroup), skippedPatterns, error };
+}
@@ -0,0 +1,103 @@
+/**
+ * Application fund classification by source of money
+ *
+ * Budget writers split every appropriation by method of finance: General Revenue,
+ * General Revenue-Dedicated accounts, Federal Funds and Other Funds (trust, bond, highway
+ * and local funds). applicationFundCodes only has names, so each fund is classified from
+ * its name ("Gr Acct-..." accounts are GR-Dedicated, anything federal is Federal) plus a
+ * short list of known exceptions, and the classification is compiled into queries as a
+ * CASE over "Appd_Fund_Num". The funds come from the reference data service like every
+ * other code lookup, so a fund added to the database is classified without a new snapshot.
+ */
+
+import { getReferenceData, type ReferenceEntry } from './reference-data';
+
+export const FUND_SOURCES = ['general_revenue', 'gr_dedicated', 'federal', 'other'] as const;
+
+export type FundSource = typeof FUND_SOURCES[number];
+
+export type FundSourceCodes = Record<FundSource, number[]>;
+
+export const FUND_SOURCE_LABELS: Record<FundSource, string> = {
+  general_revenue: 'General Revenue',
+  gr_dedicated: 'GR-Dedicated',
+  federal: 'Federal',
+  other: 'Other'
+};
+
+// Funds whose names don't say how the budget counts them
+const FUND_SOURCE_OVERRIDES: Record<number, FundSource> = {
+  // Available School Fund, Instructional Materials and Foundation School Account count as GR
+  2: 'general_revenue',
+  3: 'general_revenue',
+  193: 'general_revenue',
+  // State unemployment taxes held at the US Treasury, not federal money
+  938: 'other'
+};
+
+/**
+ * Classify an application fund, e.g. "0148 - Gr Acct-Fed Health/Ed/Welfare" -> federal
+ */
+export function classifyFundSource(fund: ReferenceEntry): FundSource {
+  const override = FUND_SOURCE_OVERRIDES[fund.code];
+  if (override) {
+    return override;
+  }
+
+  // Names look like "0019 - Gr Acct-Vital Statistics"
+  const name = fund.name.replace(/^\d+\s*-\s*/, '');
+  if (/\b(FED|FEDERAL)\b|CORONAVIRUS|RECOVERY & REINVEST|RESTORE ACT/i.test(name)) {
+    return 'federal';
+  }
+  if (fund.code === 1 || /GENERAL REVENUE/i.test(name)) {
+    return 'general_revenue';
+  }
+  if (/^GR\b/i.test(name)) {
+    return 'gr_dedicated';
+  }
+  return 'other';
+}
+
+/**
+ * Fund codes per source, sorted
+ */
+export function classifyFundSources(funds: ReferenceEntry[]): FundSourceCodes {
+  return FUND_SOURCES.reduce((codes, source) => {
+    codes[source] = funds
+      .filter(fund => classifyFundSource(fund) === source)
+      .map(fund => fund.code)
+      .sort((a, b) => a - b);
+    return codes;
+  }, {} as FundSourceCodes);
+}
+
+// One classification per loaded fund table - redone only when the reference data is reloaded
+const classifiedFunds = new WeakMap<ReferenceEntry[], FundSourceCodes>();
+
+/**
+ * Fund codes per source for the loaded applicationFundCodes table. Funds missing from
+ * it fall under Other.
+ */
+export async function getFundSourceCodes(): Promise<FundSourceCodes> {
+  const funds = (await getReferenceData()).entries('applicationFundCodes');
+  let codes = classifiedFunds.get(funds);
+  if (!codes) {
+    codes = classifyFundSources(funds);
+    classifiedFunds.set(funds, codes);
+  }
+  return codes;
+}
+
+/**
+ * SQL expression giving the fund source of a payment (p."Appd_Fund_Num")
+ */
+export function fundSourceExpression(codes: FundSourceCodes): string {
+  const branches = FUND_SOURCES
+    .filter(source => source !== 'other' && codes[source].length > 0)
+    .map(source => `WHEN p."Appd_Fund_Num" IN (${codes[source].join(', ')}) THEN '${FUND_SOURCE_LABELS[source]}'`);
+  // CASE needs a WHEN, and PostgreSQL only groups by a bare constant if it is cast
+  if (branches.length === 0) {
+    return `CAST('${FUND_SOURCE_LABELS.other}' AS TEXT)`;
+  }
+  return `CASE ${branches.join(' ')} ELSE '${FUND_SOURCE_LABELS.other}' END`;
+}
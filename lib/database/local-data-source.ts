@@ -0,0 +1,167 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { SCHEMA_TABLES } from './schema-context';
+import { PAYMENTS_MONTHLY_SUMMARY, PAYMENTS_MONTHLY_SUMMARY_SQL } from './cost-gate';
+import { OBJECT_CATEGORY_ROLLUP, OBJECT_CATEGORY_ROLLUP_SQL } from './object-categories';
+import { PAYEE_TOTALS, PAYEE_TOTALS_SQL } from './payee-search-index';
+import type { DataSource, DataSourceError, DataSourceResult, PayeeMatch, QueryPlanEstimate, QueryRow, ReferenceTableName } from './data-source';
+
+/**
+ * Local DuckDB database for offline development, demos and tests.
+ *
+ * Each table in the schema is read from <dataDir>/<table>.parquet or <dataDir>/<table>.csv,
+ * e.g. data/payments.parquet and data/agencyCodes.csv, and exposed as a view with the
+ * same quoted name so generated PostgreSQL queries run unchanged.
+ */
+export class LocalDataSource implements DataSource {
+  readonly name = 'local' as const;
+
+  private connection: Promise<DuckDBConnection> | null = null;
+
+  constructor(private readonly dataDir: string) {}
+
+  async executeReadQuery(sqlQuery: string): Promise<DataSourceResult<QueryRow>> {
+    return this.run(sqlQuery);
+  }
+
+  async explainQuery(sqlQuery: string): Promise<{ plan: QueryPlanEstimate | null; error: DataSourceError | null }> {
+    const result = await this.run(`EXPLAIN (FORMAT JSON) ${sqlQuery}`);
+    if (result.error) {
+      return { plan: null, error: result.error };
+    }
+
+    try {
+      const nodes = JSON.parse(String(result.data?.[0]?.explain_value)) as DuckDBPlanNode[];
+      const root = nodes[0];
+      return {
+        plan: {
+          totalCost: null,
+          estimatedRows: readCardinality(root),
+          scannedRows: nodes.reduce((total, node) => total + sumScannedRows(node), 0)
+        },
+        error: null
+      };
+    } catch (e) {
+      return { plan: null, error: { message: `Could not read EXPLAIN output: ${(e as Error).message}` } };
+    }
+  }
+
+  async searchPayees(searchTerm: string, limit: number): Promise<DataSourceResult<PayeeMatch>> {
+    const result = await this.run(
+      `SELECT "Payee_Name" AS payee_name, CAST("Payee_id" AS VARCHAR) AS payee_id
+       FROM "payeeCodes"
+       WHERE "Payee_Name" ILIKE $1
+       ORDER BY CASE WHEN "Payee_Name" ILIKE $2 THEN 1 ELSE 2 END, LENGTH("Payee_Name"), "Payee_Name"
+       LIMIT $3`,
+      [`%${searchTerm}%`, `${searchTerm}%`, limit]
+    );
+
+    return {
+      data: result.data as PayeeMatch[] | null,
+      error: result.error
+    };
+  }
+
+  async fetchReferenceTable(table: ReferenceTableName): Promise<DataSourceResult<QueryRow>> {
+    return this.run(`SELECT * FROM "${table}"`);
+  }
+
+  private async run(sqlQuery: string, values?: Array<string | number>): Promise<DataSourceResult<QueryRow>> {
+    try {
+      const connection = await this.connect();
+      const reader = await connection.runAndReadAll(sqlQuery, values);
+      return { data: reader.getRowObjectsJS().map(toJsonRow), error: null };
+    } catch (e) {
+      console.error('Local query error:', e);
+      return { data: null, error: { message: (e as Error).message } };
+    }
+  }
+
+  private connect(): Promise<DuckDBConnection> {
+    if (!this.connection) {
+      this.connection = this.openDatabase();
+      // Allow a retry after snapshot files are fixed
+      this.connection.catch(() => {
+        this.connection = null;
+      });
+    }
+    return this.connection;
+  }
+
+  private async openDatabase(): Promise<DuckDBConnection> {
+    // A dev dependency, missing from production installs
+    const { DuckDBInstance } = await import('@duckdb/node-api').catch(() => {
+      throw new Error('DATA_SOURCE=local needs @duckdb/node-api - install the dev dependencies');
+    });
+    const instance = await DuckDBInstance.create(':memory:');
+    const connection = await instance.connect();
+    const dataDir = path.resolve(process.cwd(), this.dataDir);
+
+    for (const table of Object.keys(SCHEMA_TABLES)) {
+      const parquetFile = path.join(dataDir, `${table}.parquet`);
+      const csvFile = path.join(dataDir, `${table}.csv`);
+
+      if (existsSync(parquetFile)) {
+        await connection.run(`CREATE VIEW "${table}" AS SELECT * FROM read_parquet('${escapeLiteral(parquetFile)}')`);
+      } else if (existsSync(csvFile)) {
+        await connection.run(`CREATE VIEW "${table}" AS SELECT * FROM read_csv_auto('${escapeLiteral(csvFile)}', header = true)`);
+      } else {
+        console.warn(`Local data source: no snapshot found for "${table}" in ${dataDir}`);
+      }
+    }
+
+    // Pre-aggregated source the cost gate can downgrade to (a materialized view in Supabase)
+    await connection.run(`CREATE VIEW "${PAYMENTS_MONTHLY_SUMMARY}" AS ${PAYMENTS_MONTHLY_SUMMARY_SQL}`).catch(error => {
+      console.warn(`Local data source: could not create "${PAYMENTS_MONTHLY_SUMMARY}":`, error.message);
+    });
+
+    // Comptroller object → category rollup (a materialized view in Supabase)
+    await connection.run(`CREATE VIEW "${OBJECT_CATEGORY_ROLLUP}" AS ${OBJECT_CATEGORY_ROLLUP_SQL}`).catch(error => {
+      console.warn(`Local data source: could not create "${OBJECT_CATEGORY_ROLLUP}":`, error.message);
+    });
+
+    // Total paid per payee for search ranking (a materialized view in Supabase)
+    await connection.run(`CREATE VIEW "${PAYEE_TOTALS}" AS ${PAYEE_TOTALS_SQL}`).catch(error => {
+      console.warn(`Local data source: could not create "${PAYEE_TOTALS}":`, error.message);
+    });
+
+    return connection;
+  }
+}
+
+interface DuckDBPlanNode {
+  name: string;
+  children?: DuckDBPlanNode[];
+  extra_info?: Record<string, unknown>;
+}
+
+function readCardinality(node: DuckDBPlanNode | undefined): number {
+  return Number(node?.extra_info?.['Estimated Cardinality'] ?? 0) || 0;
+}
+
+// Scans show up as SEQ_SCAN or as the READ_PARQUET/READ_CSV table functions behind the views
+function sumScannedRows(node: DuckDBPlanNode): number {
+  const isScan = /SCAN|READ_/.test(node.name);
+  const ownRows = isScan ? readCardinality(node) : 0;
+  return ownRows + (node.children ?? []).reduce((total, child) => total + sumScannedRows(child), 0);
+}
+
+function escapeLiteral(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+// Match the JSON Supabase returns: numbers instead of BigInt, ISO strings instead of Date
+function toJsonRow(row: Record<string, unknown>): QueryRow {
+  const jsonRow: QueryRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === 'bigint') {
+      jsonRow[key] = Number(value);
+    } else if (value instanceof Date) {
+      jsonRow[key] = value.toISOString();
+    } else {
+      jsonRow[key] = value;
+    }
+  }
+  return jsonRow;
+}
@@ -0,0 +1,202 @@
+/**
+ * Comptroller object → category rollup
+ *
+ * Every payment carries both a comptroller object and one of the 21 spending categories,
+ * but nothing in the code tables says which objects roll up to which category. The
+ * mapping is derived from the payments themselves: an object's primary category is the
+ * one most of its payments are booked under (a few objects appear under several).
+ * Objects are also grouped into code families by their first two digits, e.g. 70xx for
+ * salaries and wages, named after the category most of the family's dollars fall in.
+ *
+ * Supabase stores the rollup as a materialized view (refresh after each data load):
+ *
+ * CREATE MATERIALIZED VIEW "objectCategoryRollup" AS
+ *   SELECT "Comptroller_Object_Num", "CatCode",
+ *          COUNT(*) AS "payment_count", SUM("Amount") AS "total_amount"
+ *   FROM "payments"
+ *   GROUP BY 1, 2;
+ *
+ * Without the view the same aggregate runs against payments once per process.
+ */
+
+import { getDataSource, type QueryRow } from './data-source';
+import { getReferenceData } from './reference-data';
+
+export const OBJECT_CATEGORY_ROLLUP = 'objectCategoryRollup';
+
+export const OBJECT_CATEGORY_ROLLUP_SQL = `
+  SELECT "Comptroller_Object_Num", "CatCode",
+         COUNT(*) AS "payment_count", SUM("Amount") AS "total_amount"
+  FROM "payments"
+  GROUP BY 1, 2`;
+
+export interface ObjectCategoryLink {
+  categoryCode: number;
+  categoryName: string;
+  paymentCount: number;
+  totalAmount: number;
+  // Fraction of the object's payments booked under this category
+  share: number;
+}
+
+export interface ObjectRollup {
+  objectCode: number;
+  objectName: string;
+  family: string;
+  primaryCategory: ObjectCategoryLink;
+  // Every category the object appears under, most payments first
+  categories: ObjectCategoryLink[];
+}
+
+export interface ObjectFamily {
+  // "70xx"
+  id: string;
+  start: number;
+  end: number;
+  categoryCode: number;
+  categoryName: string;
+  objectCodes: number[];
+  totalAmount: number;
+}
+
+export function objectFamilyId(objectCode: number): string {
+  return `${String(Math.floor(objectCode / 100)).padStart(2, '0')}xx`;
+}
+
+export class ObjectCategoryMap {
+  private readonly byObject: Map<number, ObjectRollup>;
+  private readonly byFamily: Map<string, ObjectFamily>;
+
+  constructor(readonly objects: ObjectRollup[]) {
+    this.byObject = new Map(objects.map(object => [object.objectCode, object]));
+    this.byFamily = buildFamilies(objects);
+  }
+
+  objectRollup(objectCode: number): ObjectRollup | undefined {
+    return this.byObject.get(objectCode);
+  }
+
+  /**
+   * Objects that roll up to a category, largest first. With includeSecondary, objects
+   * whose primary category is elsewhere but that have some payments here are included.
+   */
+  objectsForCategory(categoryCode: number, includeSecondary = false): ObjectRollup[] {
+    return this.objects
+      .filter(object => includeSecondary
+        ? object.categories.some(link => link.categoryCode === categoryCode)
+        : object.primaryCategory.categoryCode === categoryCode)
+      .sort((a, b) => categoryAmount(b, categoryCode) - categoryAmount(a, categoryCode));
+  }
+
+  families(): ObjectFamily[] {
+    return [...this.byFamily.values()].sort((a, b) => a.start - b.start);
+  }
+
+  family(id: string): ObjectFamily | undefined {
+    return this.byFamily.get(id);
+  }
+}
+
+function categoryAmount(object: ObjectRollup, categoryCode: number): number {
+  return object.categories.find(link => link.categoryCode === categoryCode)?.totalAmount ?? 0;
+}
+
+function buildFamilies(objects: ObjectRollup[]): Map<string, ObjectFamily> {
+  const grouped = new Map<string, ObjectRollup[]>();
+  objects.forEach(object => {
+    grouped.set(object.family, [...(grouped.get(object.family) ?? []), object]);
+  });
+
+  return new Map([...grouped].map(([id, members]) => {
+    // Name the family after the category with the most dollars across its objects
+    const categoryTotals = new Map<number, { name: string; amount: number }>();
+    members.forEach(object => object.categories.forEach(link => {
+      const total = categoryTotals.get(link.categoryCode) ?? { name: link.categoryName, amount: 0 };
+      total.amount += link.totalAmount;
+      categoryTotals.set(link.categoryCode, total);
+    }));
+    const [categoryCode, category] = [...categoryTotals].sort((a, b) => b[1].amount - a[1].amount)[0];
+    const start = Math.floor(members[0].objectCode / 100) * 100;
+
+    return [id, {
+      id,
+      start,
+      end: start + 99,
+      categoryCode,
+      categoryName: category.name,
+      objectCodes: members.map(object => object.objectCode).sort((a, b) => a - b),
+      totalAmount: members.reduce((sum, object) => sum + object.categories.reduce((total, link) => total + link.totalAmount, 0), 0)
+    }];
+  }));
+}
+
+async function fetchRollupRows(): Promise<QueryRow[]> {
+  const dataSource = await getDataSource();
+
+  const stored = await dataSource.executeReadQuery(`SELECT * FROM "${OBJECT_CATEGORY_ROLLUP}"`);
+  if (!stored.error && stored.data) {
+    return stored.data;
+  }
+
+  console.warn(`Object rollup: "${OBJECT_CATEGORY_ROLLUP}" unavailable, aggregating payments:`, stored.error?.message);
+  const derived = await dataSource.executeReadQuery(OBJECT_CATEGORY_ROLLUP_SQL);
+  if (derived.error || !derived.data) {
+    throw new Error(derived.error?.message ?? 'Rollup query returned no rows');
+  }
+  return derived.data;
+}
+
+async function loadObjectCategoryMap(): Promise<ObjectCategoryMap> {
+  const [rows, referenceData] = await Promise.all([fetchRollupRows(), getReferenceData()]);
+
+  const linksByObject = new Map<number, ObjectCategoryLink[]>();
+  rows.forEach(row => {
+    const objectCode = Number(row.Comptroller_Object_Num);
+    const categoryCode = Number(row.CatCode);
+    if (!Number.isFinite(objectCode) || !Number.isFinite(categoryCode)) {
+      return;
+    }
+    const links = linksByObject.get(objectCode) ?? [];
+    links.push({
+      categoryCode,
+      categoryName: referenceData.findByCode('categoryCodes', categoryCode)?.name ?? `Category ${categoryCode}`,
+      paymentCount: Number(row.payment_count),
+      totalAmount: Number(row.total_amount),
+      share: 0
+    });
+    linksByObject.set(objectCode, links);
+  });
+
+  const objects = [...linksByObject].map(([objectCode, links]): ObjectRollup => {
+    const paymentCount = links.reduce((sum, link) => sum + link.paymentCount, 0);
+    const categories = links
+      .map(link => ({ ...link, share: paymentCount > 0 ? link.paymentCount / paymentCount : 0 }))
+      .sort((a, b) => b.paymentCount - a.paymentCount);
+
+    return {
+      objectCode,
+      objectName: referenceData.findByCode('comptrollerCodes', objectCode)?.name ?? `Object ${objectCode}`,
+      family: objectFamilyId(objectCode),
+      primaryCategory: categories[0],
+      categories
+    };
+  });
+
+  return new ObjectCategoryMap(objects.sort((a, b) => a.objectCode - b.objectCode));
+}
+
+let objectCategoryMap: Promise<ObjectCategoryMap> | null = null;
+
+/**
+ * Get the object → category rollup, deriving it on first use
+ */
+export function getObjectCategoryMap(): Promise<ObjectCategoryMap> {
+  if (!objectCategoryMap) {
+    objectCategoryMap = loadObjectCategoryMap().catch(error => {
+      // Let the next call retry instead of caching the failure
+      objectCategoryMap = null;
+      throw error;
+    });
+  }
+  return objectCategoryMap;
+}
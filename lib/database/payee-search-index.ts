@@ -0,0 +1,387 @@
+/**
+ * In-process payee search index
+ *
+ * The search_payees RPC and its ILIKE fallback scan 2.2M names per lookup. This index is
+ * built once per process from the data source and answers in milliseconds:
+ * - Names are split into words. The sorted word list serves as a compact prefix trie:
+ *   every word starting with a prefix is one contiguous range, found by binary search.
+ * - Trigram postings over the words catch misspellings ("MICROSFT").
+ * - Payees are ranked by how well their words match, then by total paid.
+ *
+ * PAYEE_SEARCH_MODE=rpc skips the index and keeps using the data source's searchPayees.
+ *
+ * Totals come from "payeeTotals", a materialized view in Supabase (refresh after each
+ * data load):
+ *
+ * CREATE MATERIALIZED VIEW "payeeTotals" AS
+ *   SELECT "Payee_id", SUM("Amount") AS "total_paid", COUNT(*) AS "payment_count"
+ *   FROM "payments"
+ *   GROUP BY 1;
+ * CREATE UNIQUE INDEX idx_payee_totals_payee ON "payeeTotals" ("Payee_id");
+ *
+ * Without the view payees are ranked by match quality alone; aggregating 2.2M payees'
+ * payments page by page would rescan payments for every page.
+ *
+ * The index is built in the background on the first lookup, which answers through the
+ * data source's searchPayees meanwhile. A failed build isn't retried for
+ * BUILD_RETRY_DELAY_MS, so lookups keep using searchPayees instead of starting a full read
+ * of payeeCodes each time.
+ */
+
+import { getDataSource } from './data-source';
+import { forEachPayee } from './payee-tables';
+
+export const PAYEE_TOTALS = 'payeeTotals';
+
+export const PAYEE_TOTALS_SQL = `
+  SELECT "Payee_id", SUM("Amount") AS "total_paid", COUNT(*) AS "payment_count"
+  FROM "payments"
+  GROUP BY 1`;
+
+export type PayeeSearchMatchType = 'id' | 'exact' | 'prefix' | 'fuzzy';
+
+export interface PayeeSearchHit {
+  payeeId: number;
+  payeeName: string;
+  totalPaid: number;
+  // Weakest match among the query's words
+  matchType: PayeeSearchMatchType;
+  score: number;
+}
+
+export interface PayeeSearchPage {
+  hits: PayeeSearchHit[];
+  // Matches across all pages
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+const MATCH_SCORES: Record<Exclude<PayeeSearchMatchType, 'id'>, number> = {
+  exact: 1,
+  prefix: 0.8,
+  // Scaled by trigram similarity
+  fuzzy: 0.6
+};
+
+// Fuzzy matching only for words long enough for trigrams to mean something
+const MIN_FUZZY_LENGTH = 4;
+const MIN_TRIGRAM_SIMILARITY = 0.5;
+
+export function tokenizePayeeName(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[.'’]/g, '')
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+}
+
+function trigrams(word: string): string[] {
+  const padded = ` ${word} `;
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.push(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+// First index in a sorted array whose value is >= target
+function lowerBound<T>(values: ArrayLike<T>, target: T): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (values[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+interface WordMatch {
+  score: number;
+  matchType: Exclude<PayeeSearchMatchType, 'id'>;
+}
+
+export class PayeeSearchIndex {
+  // Sorted vocabulary of every word in every payee name
+  private readonly words: string[];
+  // Word index -> payee indexes, stored as one array sliced by offsets
+  private readonly postingOffsets: Uint32Array;
+  private readonly postings: Uint32Array;
+  // Trigram -> word indexes
+  private readonly trigramPostings: Map<string, Uint32Array>;
+
+  constructor(
+    // Sorted ascending
+    private readonly payeeIds: Float64Array,
+    private readonly payeeNames: string[],
+    private readonly totalPaid: Float64Array
+  ) {
+    // Two passes over the names keep the build to typed arrays instead of 500K word lists
+    const wordCounts = new Map<string, number>();
+    payeeNames.forEach(name => {
+      new Set(tokenizePayeeName(name)).forEach(word => wordCounts.set(word, (wordCounts.get(word) ?? 0) + 1));
+    });
+
+    this.words = [...wordCounts.keys()].sort();
+    this.postingOffsets = new Uint32Array(this.words.length + 1);
+    this.words.forEach((word, index) => {
+      this.postingOffsets[index + 1] = this.postingOffsets[index] + wordCounts.get(word)!;
+    });
+
+    this.postings = new Uint32Array(this.postingOffsets[this.words.length]);
+    const cursors = this.postingOffsets.slice(0, this.words.length);
+    payeeNames.forEach((name, payeeIndex) => {
+      new Set(tokenizePayeeName(name)).forEach(word => {
+        this.postings[cursors[this.wordIndex(word)]++] = payeeIndex;
+      });
+    });
+
+    const trigramWords = new Map<string, number[]>();
+    this.words.forEach((word, wordIndex) => {
+      if (word.length < MIN_FUZZY_LENGTH - 1) {
+        return;
+      }
+      new Set(trigrams(word)).forEach(gram => {
+        const list = trigramWords.get(gram) ?? [];
+        list.push(wordIndex);
+        trigramWords.set(gram, list);
+      });
+    });
+    this.trigramPostings = new Map([...trigramWords].map(([gram, list]) => [gram, Uint32Array.from(list)]));
+  }
+
+  get size(): number {
+    return this.payeeIds.length;
+  }
+
+  get wordCount(): number {
+    return this.words.length;
+  }
+
+  findById(payeeId: number): PayeeSearchHit | null {
+    const index = lowerBound(this.payeeIds, payeeId);
+    if (this.payeeIds[index] !== payeeId) {
+      return null;
+    }
+    return this.hit(index, 'id', 1);
+  }
+
+  /**
+   * Payees whose names contain every word of the query (as a whole word, a word prefix
+   * or a close misspelling), best matches and biggest recipients first
+   */
+  search(query: string, { limit = 10, offset = 0 }: { limit?: number; offset?: number } = {}): PayeeSearchPage {
+    const terms = [...new Set(tokenizePayeeName(query))];
+    const page: PayeeSearchPage = { hits: [], total: 0, offset, limit };
+    if (terms.length === 0) {
+      return page;
+    }
+
+    const termMatches = terms
+      .map(term => this.matchWords(term))
+      .sort((a, b) => this.postingCount(a) - this.postingCount(b));
+
+    // Candidates come from the most selective word; the others are checked per payee
+    const scores = new Map<number, { score: number; matchType: WordMatch['matchType'] }>();
+    termMatches[0].forEach((match, wordIndex) => {
+      for (let i = this.postingOffsets[wordIndex]; i < this.postingOffsets[wordIndex + 1]; i++) {
+        const payeeIndex = this.postings[i];
+        const current = scores.get(payeeIndex);
+        if (!current || match.score > current.score) {
+          scores.set(payeeIndex, { score: match.score, matchType: match.matchType });
+        }
+      }
+    });
+
+    const matches: Array<{ payeeIndex: number; score: number; matchType: WordMatch['matchType'] }> = [];
+    scores.forEach((first, payeeIndex) => {
+      let score = first.score;
+      let matchType = first.matchType;
+      const nameWords = tokenizePayeeName(this.payeeNames[payeeIndex]).map(word => this.wordIndex(word));
+
+      for (const wordMatches of termMatches.slice(1)) {
+        const best = nameWords
+          .map(wordIndex => wordMatches.get(wordIndex))
+          .reduce<WordMatch | undefined>((top, match) => (match && (!top || match.score > top.score) ? match : top), undefined);
+        if (!best) {
+          return;
+        }
+        score += best.score;
+        if (MATCH_SCORES[best.matchType] < MATCH_SCORES[matchType]) {
+          matchType = best.matchType;
+        }
+      }
+      matches.push({ payeeIndex, score: Math.round((score / termMatches.length) * 100) / 100, matchType });
+    });
+
+    matches.sort((a, b) =>
+      b.score - a.score ||
+      this.totalPaid[b.payeeIndex] - this.totalPaid[a.payeeIndex] ||
+      this.payeeNames[a.payeeIndex].localeCompare(this.payeeNames[b.payeeIndex]));
+
+    page.total = matches.length;
+    page.hits = matches
+      .slice(offset, offset + limit)
+      .map(match => this.hit(match.payeeIndex, match.matchType, match.score));
+    return page;
+  }
+
+  private hit(payeeIndex: number, matchType: PayeeSearchMatchType, score: number): PayeeSearchHit {
+    return {
+      payeeId: this.payeeIds[payeeIndex],
+      payeeName: this.payeeNames[payeeIndex],
+      totalPaid: this.totalPaid[payeeIndex],
+      matchType,
+      score
+    };
+  }
+
+  private wordIndex(word: string): number {
+    return lowerBound(this.words, word);
+  }
+
+  private postingCount(wordMatches: Map<number, WordMatch>): number {
+    let count = 0;
+    wordMatches.forEach((_, wordIndex) => {
+      count += this.postingOffsets[wordIndex + 1] - this.postingOffsets[wordIndex];
+    });
+    return count;
+  }
+
+  // Vocabulary words a query term can stand for, with how well they match
+  private matchWords(term: string): Map<number, WordMatch> {
+    const matches = new Map<number, WordMatch>();
+
+    // Prefix range: term itself (exact) followed by every longer word starting with it
+    const start = lowerBound(this.words, term);
+    for (let index = start; index < this.words.length && this.words[index].startsWith(term); index++) {
+      const matchType = this.words[index] === term ? 'exact' : 'prefix';
+      matches.set(index, { score: MATCH_SCORES[matchType], matchType });
+    }
+
+    if (term.length >= MIN_FUZZY_LENGTH) {
+      const termGrams = new Set(trigrams(term));
+      const shared = new Map<number, number>();
+      termGrams.forEach(gram => {
+        this.trigramPostings.get(gram)?.forEach(wordIndex => shared.set(wordIndex, (shared.get(wordIndex) ?? 0) + 1));
+      });
+      shared.forEach((count, wordIndex) => {
+        if (matches.has(wordIndex)) {
+          return;
+        }
+        // Dice coefficient over distinct trigrams
+        const similarity = (2 * count) / (termGrams.size + new Set(trigrams(this.words[wordIndex])).size);
+        if (similarity >= MIN_TRIGRAM_SIMILARITY) {
+          matches.set(wordIndex, { score: Math.round(MATCH_SCORES.fuzzy * similarity * 100) / 100, matchType: 'fuzzy' });
+        }
+      });
+    }
+
+    return matches;
+  }
+}
+
+// ========================================
+// BUILD
+// ========================================
+
+const TOTALS_BATCH_SIZE = 50_000;
+
+// Total paid per payee from the view, paged by Payee_id; empty when the view is missing
+async function loadPayeeTotals(): Promise<Map<number, number>> {
+  const dataSource = await getDataSource();
+  const totals = new Map<number, number>();
+
+  const probe = await dataSource.executeReadQuery(`SELECT "Payee_id" FROM "${PAYEE_TOTALS}" LIMIT 1`);
+  if (probe.error) {
+    console.warn(`Payee search: "${PAYEE_TOTALS}" unavailable, ranking by match only:`, probe.error.message);
+    return totals;
+  }
+
+  let lastPayeeId = -1;
+  for (;;) {
+    const { data, error } = await dataSource.executeReadQuery(
+      `SELECT "Payee_id", "total_paid" FROM "${PAYEE_TOTALS}" WHERE "Payee_id" > ${lastPayeeId} ORDER BY "Payee_id" LIMIT ${TOTALS_BATCH_SIZE}`
+    );
+    if (error || !data) {
+      throw new Error(`Failed to read payee totals after ${lastPayeeId}: ${error?.message ?? 'no data'}`);
+    }
+    if (data.length === 0) {
+      return totals;
+    }
+    data.forEach(row => {
+      lastPayeeId = Number(row.Payee_id);
+      totals.set(lastPayeeId, Number(row.total_paid) || 0);
+    });
+  }
+}
+
+/**
+ * Build a new index from every payee in the data source
+ */
+export async function buildPayeeSearchIndex(): Promise<PayeeSearchIndex> {
+  const payeeIds: number[] = [];
+  const payeeNames: string[] = [];
+
+  await forEachPayee(({ payeeId, payeeName }) => {
+    payeeIds.push(payeeId);
+    payeeNames.push(payeeName);
+  });
+  const totals = await loadPayeeTotals();
+
+  return new PayeeSearchIndex(
+    Float64Array.from(payeeIds),
+    payeeNames,
+    Float64Array.from(payeeIds, payeeId => totals.get(payeeId) ?? 0)
+  );
+}
+
+// Lookups fall back to searchPayees for this long after a failed build
+export const BUILD_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+let payeeSearchIndex: Promise<PayeeSearchIndex> | null = null;
+let readyIndex: PayeeSearchIndex | null = null;
+let lastBuildFailure: number | null = null;
+
+export function payeeSearchMode(): 'index' | 'rpc' {
+  return process.env.PAYEE_SEARCH_MODE === 'rpc' ? 'rpc' : 'index';
+}
+
+/**
+ * Get the payee search index, building it on first use
+ */
+export function getPayeeSearchIndex(): Promise<PayeeSearchIndex> {
+  if (!payeeSearchIndex) {
+    payeeSearchIndex = buildPayeeSearchIndex()
+      .then(index => {
+        readyIndex = index;
+        lastBuildFailure = null;
+        return index;
+      })
+      .catch(error => {
+        // Not cached, so an explicit call can retry; peekPayeeSearchIndex waits first
+        payeeSearchIndex = null;
+        lastBuildFailure = Date.now();
+        throw error;
+      });
+  }
+  return payeeSearchIndex;
+}
+
+/**
+ * The index if it is already built, otherwise null - starting the build in the
+ * background so callers can fall back to the RPC search meanwhile. Nothing is started
+ * within BUILD_RETRY_DELAY_MS of a failed build.
+ */
+export function peekPayeeSearchIndex(): PayeeSearchIndex | null {
+  const retryDue = lastBuildFailure === null || Date.now() - lastBuildFailure >= BUILD_RETRY_DELAY_MS;
+  if (!readyIndex && retryDue) {
+    getPayeeSearchIndex().catch(error => console.error('Payee search index build failed:', error));
+  }
+  return readyIndex;
+}
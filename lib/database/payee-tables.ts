@@ -0,0 +1,101 @@
+/**
+ * Shared plumbing for tables derived from payeeCodes (vendor clusters, payee types)
+ *
+ * Both are rebuilt by reading every payee in Payee_id order and stored one row per
+ * payee: upserted into Supabase, or written as a CSV snapshot next to the other local
+ * tables when DATA_SOURCE=local (picked up when the server restarts).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { formatCSVRow } from '../utils/csv';
+import { getDataSource, type DataSourceError } from './data-source';
+
+export interface PayeeRecord {
+  payeeId: number;
+  payeeName: string;
+  // Stored "payeeTypes" tag, when read with withPayeeTypes (null for payees not yet tagged)
+  payeeType?: string | null;
+}
+
+export interface ForEachPayeeOptions {
+  // Join the stored payee types; the payeeTypes table must exist
+  withPayeeTypes?: boolean;
+}
+
+const PAYEE_BATCH_SIZE = 50_000;
+const UPSERT_BATCH_SIZE = 5_000;
+
+/**
+ * Read every payee in Payee_id order.
+ * Keyset pagination keeps each batch cheap on the 2.2M-row table.
+ */
+export async function forEachPayee(visit: (payee: PayeeRecord) => void, options: ForEachPayeeOptions = {}): Promise<void> {
+  const dataSource = await getDataSource();
+  let lastPayeeId = -1;
+
+  for (;;) {
+    const { data, error } = await dataSource.executeReadQuery(options.withPayeeTypes
+      ? `SELECT pc."Payee_id", pc."Payee_Name", pt."Payee_Type" FROM "payeeCodes" pc LEFT JOIN "payeeTypes" pt ON pc."Payee_id" = pt."Payee_id" WHERE pc."Payee_id" > ${lastPayeeId} ORDER BY pc."Payee_id" LIMIT ${PAYEE_BATCH_SIZE}`
+      : `SELECT "Payee_id", "Payee_Name" FROM "payeeCodes" WHERE "Payee_id" > ${lastPayeeId} ORDER BY "Payee_id" LIMIT ${PAYEE_BATCH_SIZE}`
+    );
+    if (error || !data) {
+      throw new Error(`Failed to read payees after ${lastPayeeId}: ${error?.message ?? 'no data'}`);
+    }
+
+    // execute_analytics_query caps rows per call, so a short batch doesn't mean the end
+    if (data.length === 0) {
+      return;
+    }
+    data.forEach(row => {
+      lastPayeeId = Number(row.Payee_id);
+      visit({
+        payeeId: lastPayeeId,
+        payeeName: String(row.Payee_Name ?? '').trim(),
+        ...(options.withPayeeTypes && { payeeType: (row.Payee_Type as string | null) ?? null })
+      });
+    });
+  }
+}
+
+/**
+ * Whether a derived payee table has been built in the active data source
+ */
+export async function payeeTableExists(table: string): Promise<boolean> {
+  const dataSource = await getDataSource();
+  const { error } = await dataSource.executeReadQuery(`SELECT "Payee_id" FROM "${table}" LIMIT 1`);
+  return !error;
+}
+
+/**
+ * Store a payee-keyed table in the active data source
+ */
+export async function savePayeeTable<Row extends { Payee_id: number }>(
+  table: string,
+  columns: Array<keyof Row & string>,
+  rows: Row[]
+): Promise<{ error: DataSourceError | null }> {
+  try {
+    if (process.env.DATA_SOURCE === 'local') {
+      const dataDir = path.resolve(process.cwd(), process.env.LOCAL_DATA_DIR || 'data');
+      await fs.mkdir(dataDir, { recursive: true });
+      const lines = rows.map(row => formatCSVRow(row as Record<string, unknown>, columns));
+      await fs.writeFile(path.join(dataDir, `${table}.csv`), [columns.map(column => `"${column}"`).join(','), ...lines].join('\n'));
+      return { error: null };
+    }
+
+    const { supabase } = await import('../supabase');
+    for (let start = 0; start < rows.length; start += UPSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from(table)
+        .upsert(rows.slice(start, start + UPSERT_BATCH_SIZE), { onConflict: 'Payee_id' });
+      if (error) {
+        return { error: { message: `Upsert into ${table} failed at row ${start}: ${error.message}`, code: error.code } };
+      }
+    }
+    return { error: null };
+  } catch (e) {
+    console.error(`${table} save error:`, e);
+    return { error: { message: (e as Error).message } };
+  }
+}
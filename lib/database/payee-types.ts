@@ -0,0 +1,170 @@
+/**
+ * Rule-based payee type classification
+ *
+ * Nothing in payeeCodes says whether a payee is a person, a company, a school district
+ * or another government. Each payee is tagged from name patterns (ISD, COUNTY, UNIVERSITY,
+ * LLC, CITY OF, ...), names shaped like a person's ("JOHN A SMITH", "SMITH, JOHN") are
+ * individuals, and the tags are stored as "payeeTypes" so generated queries can filter
+ * and group by payee type. Payees without a stored tag count as "other".
+ *
+ * Rebuild after each payeeCodes load with `npm run build:payee-types`, before the vendor
+ * clusters; it reads every payee, so it runs offline rather than in a route.
+ */
+
+import { getDataSource, type DataSource, type DataSourceError } from './data-source';
+import { forEachPayee, payeeTableExists, savePayeeTable } from './payee-tables';
+
+// ========================================
+// REQUIRED TABLE (Supabase)
+// ========================================
+//
+// CREATE TABLE "payeeTypes" (
+//   "Payee_id" BIGINT PRIMARY KEY,
+//   "Payee_Type" TEXT NOT NULL
+// );
+// CREATE INDEX idx_payee_types_type ON "payeeTypes" ("Payee_Type");
+//
+// ========================================
+
+export const PAYEE_TYPE_TABLE = 'payeeTypes';
+
+export const PAYEE_TYPES = [
+  'individual',
+  'company',
+  'nonprofit',
+  'school_district',
+  'higher_education',
+  'county',
+  'city',
+  'special_district',
+  'government',
+  'other'
+] as const;
+
+export type PayeeType = typeof PAYEE_TYPES[number];
+
+export interface PayeeTypeRow {
+  Payee_id: number;
+  Payee_Type: PayeeType;
+}
+
+export interface PayeeTypeBuild {
+  payeeCount: number;
+  typeCounts: Record<PayeeType, number>;
+  rows: PayeeTypeRow[];
+}
+
+// ========================================
+// RULES
+// ========================================
+
+interface PayeeTypeRule {
+  type: PayeeType;
+  pattern: RegExp;
+}
+
+// First match wins. Nonprofit and legal-form rules come before the public-sector ones
+// so "AUSTIN ISD EDUCATION FOUNDATION" and "COUNTY LINE LLC" aren't tagged as governments.
+const PAYEE_TYPE_RULES: PayeeTypeRule[] = [
+  { type: 'individual', pattern: /^CONFIDENTIAL$/ },
+  { type: 'nonprofit', pattern: /\b(FOUNDATION|ASSOCIATION|CHURCH|MINISTRIES|CHARITIES|UNITED WAY|HABITAT FOR HUMANITY|GOODWILL|SALVATION ARMY|NON ?PROFIT|FOOD BANK|YMCA|BOYS AND GIRLS CLUB)\b/ },
+  { type: 'company', pattern: /\b(INC|INCORPORATED|LLC|LLP|LP|LTD|CORP|CORPORATION|CO|COMPANY|PLLC|PC|PLC)$/ },
+  { type: 'school_district', pattern: /\b(C?ISD|INDEPENDENT SCHOOL DISTRICT|SCHOOL DISTRICT|CHARTER SCHOOLS?|PUBLIC SCHOOLS)\b/ },
+  { type: 'higher_education', pattern: /\b(UNIVERSITY|COLLEGE|COLLEGE DISTRICT|HEALTH SCIENCE CENTER|INSTITUTE OF TECHNOLOGY)\b/ },
+  { type: 'special_district', pattern: /\b(HOSPITAL DISTRICT|UTILITY DISTRICT|WATER DISTRICT|WATER CONTROL|APPRAISAL DISTRICT|DRAINAGE DISTRICT|NAVIGATION DISTRICT|EMERGENCY SERVICES DISTRICT|RIVER AUTHORITY|GROUNDWATER CONSERVATION DISTRICT|MUD \d+)\b/ },
+  { type: 'county', pattern: /\bCOUNTY\b/ },
+  { type: 'city', pattern: /(^(CITY|TOWN|VILLAGE) OF\b|\b(CITY|TOWN|VILLAGE) OF$)/ },
+  { type: 'government', pattern: /\b(STATE OF|DEPARTMENT OF|DEPT OF|UNITED STATES|US TREASURY|INTERNAL REVENUE SERVICE|COMMISSION|COMPTROLLER|COUNCIL OF GOVERNMENTS|TRANSIT AUTHORITY|HOUSING AUTHORITY|RETIREMENT SYSTEM|TEXAS WORKFORCE)\b/ },
+  // Company-sounding names without a legal-form suffix
+  { type: 'company', pattern: /\b(BANK|ENTERPRISES|HOLDINGS|GROUP|SERVICES|SOLUTIONS|TECHNOLOGIES|CONSULTING|CONSTRUCTION|CONTRACTORS|PARTNERS|ASSOCIATES|INDUSTRIES|SUPPLY|MOTORS|PHARMACY)\b/ }
+];
+
+// Words that make a short, name-shaped payee an organization, e.g. "AUSTIN ENERGY", "BLUE CROSS"
+const ORGANIZATION_WORDS = new Set([
+  'AND', 'OF', 'THE', 'FOR', 'AT',
+  'AIR', 'AMERICA', 'AMERICAN', 'AUTO', 'BLUE', 'BUILDERS', 'CAFE', 'CAPITAL', 'CARE', 'CENTER', 'CHEMICAL', 'CLINIC',
+  'CREDIT', 'CROSS', 'DATA', 'DEPOT', 'DESIGN', 'ELECTRIC', 'ENERGY', 'ENGINEERING', 'EQUIPMENT', 'FARMS', 'FINANCIAL',
+  'FIRM', 'FOODS', 'FUND', 'GLOBAL', 'GROCERY', 'HEALTH', 'HOMES', 'HOSPITAL', 'HOTEL', 'INSURANCE', 'INTERNATIONAL',
+  'LABS', 'LAW', 'LOGISTICS', 'MANAGEMENT', 'MARKET', 'MARKETING', 'MART', 'MEDIA', 'MEDICAL', 'NATIONAL', 'NETWORK',
+  'OFFICE', 'OIL', 'POWER', 'PRINTING', 'PRODUCTS', 'PROPERTIES', 'PROPERTY', 'RANCH', 'REALTY', 'RENTAL', 'RENTALS',
+  'SALES', 'SCHOOL', 'SOFTWARE', 'STEEL', 'STORE', 'SYSTEMS', 'TEXAS', 'TIRE', 'TRANSPORT', 'TRUCKING', 'TRUST',
+  'UNION', 'WATER', 'WIRELESS'
+]);
+
+const NAME_SUFFIXES = new Set(['JR', 'SR', 'II', 'III', 'IV']);
+
+// Two or three words of letters, at least two of them longer than an initial:
+// "JOHN SMITH", "JOHN A SMITH", "SMITH JOHN A" (from "SMITH, JOHN A"), "JOHN SMITH JR"
+function looksLikePersonName(cleaned: string): boolean {
+  const words = cleaned.split(' ').filter(word => !NAME_SUFFIXES.has(word));
+  return words.length >= 2
+    && words.length <= 3
+    && words.every(word => /^[A-Z]+$/.test(word) && !ORGANIZATION_WORDS.has(word))
+    && words.filter(word => word.length > 1).length >= 2;
+}
+
+/**
+ * Tag a payee name, e.g. "ROUND ROCK ISD" -> school_district, "DELL MARKETING LP" -> company,
+ * "JOHN A SMITH" -> individual
+ */
+export function classifyPayee(name: string): PayeeType {
+  const cleaned = name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[.'’]/g, '')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+
+  const type = PAYEE_TYPE_RULES.find(rule => rule.pattern.test(cleaned))?.type;
+  if (type) {
+    return type;
+  }
+  return looksLikePersonName(cleaned) ? 'individual' : 'other';
+}
+
+// ========================================
+// LOOKUP
+// ========================================
+
+// Data sources where the payee type table was found; a missing table is checked again next time
+const sourcesWithPayeeTypes = new WeakSet<DataSource>();
+
+/**
+ * Whether payeeTypes has been built. Without it every payee is "other" and payee type
+ * filters are rejected.
+ */
+export async function payeeTypesAvailable(): Promise<boolean> {
+  const dataSource = await getDataSource();
+  if (sourcesWithPayeeTypes.has(dataSource)) {
+    return true;
+  }
+  if (!(await payeeTableExists(PAYEE_TYPE_TABLE))) {
+    return false;
+  }
+  sourcesWithPayeeTypes.add(dataSource);
+  return true;
+}
+
+// ========================================
+// BUILD AND STORAGE
+// ========================================
+
+/**
+ * Classify every payee
+ */
+export async function buildPayeeTypes(): Promise<PayeeTypeBuild> {
+  const rows: PayeeTypeRow[] = [];
+  const typeCounts = Object.fromEntries(PAYEE_TYPES.map(type => [type, 0])) as Record<PayeeType, number>;
+
+  await forEachPayee(({ payeeId, payeeName }) => {
+    const type = classifyPayee(payeeName);
+    typeCounts[type]++;
+    rows.push({ Payee_id: payeeId, Payee_Type: type });
+  });
+
+  return { payeeCount: rows.length, typeCounts, rows };
+}
+
+export function savePayeeTypes(rows: PayeeTypeRow[]): Promise<{ error: DataSourceError | null }> {
+  return savePayeeTable(PAYEE_TYPE_TABLE, ['Payee_id', 'Payee_Type'], rows);
+}
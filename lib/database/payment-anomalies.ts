@@ -0,0 +1,212 @@
+/**
+ * Peer-group outlier scoring for individual payments
+ *
+ * A payment is compared with the other payments in its peer group - the same agency and
+ * comptroller object, or the same payee's history - using statistics that large outliers
+ * can't drag along with them:
+ *
+ * - robust z-score: (amount - median) / (1.4826 * MAD), the median absolute deviation
+ *   scaled to match a standard deviation. Groups of identical payments have a MAD of 0,
+ *   so those fall back to 1.2533 * the mean absolute deviation.
+ * - IQR distance: how many interquartile ranges the amount lies beyond the box
+ *   (Q1-Q3). Tukey's "far out" fence is 3.
+ *
+ * Filters pick which payments are scored; the baselines always cover the whole peer
+ * group, so a payee filter is still compared with everything the agency paid for that
+ * object. Everything runs as one aggregate query, so only the top outliers come back.
+ */
+
+import { runAnalysisQuery } from './analysis-query';
+import type { QueryRow } from './data-source';
+import {
+  compilePaymentFilters,
+  expandResolvedEntities,
+  loadCompileOptions,
+  QuerySpecError,
+  type CompileOptions,
+  type QuerySpec,
+  type ResolvedEntities
+} from './query-spec';
+import { formatDate } from './row-dates';
+
+export const ANOMALY_PEER_GROUPS = ['agency_object', 'payee'] as const;
+export const ANOMALY_METHODS = ['robust_z', 'iqr'] as const;
+
+export type AnomalyPeerGroup = typeof ANOMALY_PEER_GROUPS[number];
+export type AnomalyMethod = typeof ANOMALY_METHODS[number];
+
+export const ANOMALY_DEFAULTS = {
+  // Iglewicz and Hoaglin's cut-off for modified z-scores
+  robustZThreshold: 3.5,
+  iqrThreshold: 3,
+  // Smaller groups have no meaningful baseline
+  minPeerCount: 20,
+  limit: 25,
+  maxLimit: 100
+};
+
+const PEER_GROUP_COLUMNS: Record<AnomalyPeerGroup, string[]> = {
+  agency_object: ['Agency_CD', 'Comptroller_Object_Num'],
+  payee: ['Payee_id']
+};
+
+export interface AnomalyOptions {
+  peerGroup?: AnomalyPeerGroup;
+  method?: AnomalyMethod;
+  // Score cut-off on the method's scale; defaults per method
+  threshold?: number;
+  // Also flag payments far below their peers
+  includeLow?: boolean;
+  minPeerCount?: number;
+  limit?: number;
+  filters?: QuerySpec['filters'];
+  resolvedEntities?: ResolvedEntities;
+}
+
+// The statistics a payment was compared against
+export interface AnomalyBaseline {
+  peerCount: number;
+  median: number;
+  mad: number;
+  q1: number;
+  q3: number;
+}
+
+export interface PaymentAnomaly {
+  key: number;
+  date: string;
+  amount: number;
+  agencyCode: number;
+  objectCode: number;
+  payeeId: number;
+  payeeName: string | null;
+  robustZ: number | null;
+  iqrDistance: number | null;
+  baseline: AnomalyBaseline;
+}
+
+export interface AnomalySearch {
+  sqlQuery: string;
+  anomalies: PaymentAnomaly[];
+  threshold: number;
+  // Set when the cost gate stopped the query
+  error?: string;
+}
+
+function positiveInteger(value: number | undefined, fallback: number, max = Number.MAX_SAFE_INTEGER): number {
+  return value !== undefined && Number.isFinite(value) ? Math.min(Math.max(Math.floor(value), 1), max) : fallback;
+}
+
+/**
+ * Build the scoring query: candidates from the filters, baselines over their peer groups
+ */
+export function buildAnomalyQuery(options: AnomalyOptions = {}, compileOptions: CompileOptions = {}): { sqlQuery: string; threshold: number } {
+  const peerGroup = options.peerGroup ?? 'agency_object';
+  const method = options.method ?? 'robust_z';
+  const threshold = options.threshold ?? (method === 'robust_z' ? ANOMALY_DEFAULTS.robustZThreshold : ANOMALY_DEFAULTS.iqrThreshold);
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    throw new QuerySpecError(`threshold must be a positive number, got ${options.threshold}`);
+  }
+  const minPeerCount = positiveInteger(options.minPeerCount, ANOMALY_DEFAULTS.minPeerCount);
+  const limit = positiveInteger(options.limit, ANOMALY_DEFAULTS.limit, ANOMALY_DEFAULTS.maxLimit);
+
+  // One payee's history is meaningless for the pooled "Confidential" recipients
+  const filters = peerGroup === 'payee'
+    ? { ...options.filters, excludeConfidentialPayees: true }
+    : options.filters ?? {};
+  const { joins, where } = compilePaymentFilters(filters, expandResolvedEntities(options.resolvedEntities), [], compileOptions);
+
+  const keys = PEER_GROUP_COLUMNS[peerGroup];
+  const keyList = (alias: string) => keys.map(key => `${alias}."${key}"`).join(', ');
+  const keyJoin = (left: string, right: string) => keys.map(key => `${left}."${key}" = ${right}."${key}"`).join(' AND ');
+
+  const score = method === 'robust_z' ? 'sc.robust_z' : 'sc.iqr_distance';
+  const flagged = options.includeLow ? `ABS(${score}) >= ${threshold}` : `${score} >= ${threshold}`;
+
+  const sqlQuery = `WITH candidates AS (
+  SELECT p."key", p."date", p."Amount", p."Agency_CD", p."Comptroller_Object_Num", p."Payee_id"
+  FROM "payments" p
+${joins.map(join => `  ${join}\n`).join('')}${where.length > 0 ? `  WHERE ${where.join('\n    AND ')}\n` : ''}),
+peers AS (
+  SELECT ${keyList('pp')}, pp."Amount"
+  FROM "payments" pp
+  JOIN (SELECT DISTINCT ${keyList('c')} FROM candidates c) g ON ${keyJoin('g', 'pp')}
+),
+baseline AS (
+  SELECT ${keyList('pe')},
+    COUNT(*) AS peer_count,
+    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY pe."Amount") AS median_amount,
+    PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY pe."Amount") AS q1_amount,
+    PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY pe."Amount") AS q3_amount
+  FROM peers pe
+  GROUP BY ${keyList('pe')}
+  HAVING COUNT(*) >= ${minPeerCount}
+),
+spread AS (
+  SELECT ${keyList('pe')},
+    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ABS(pe."Amount" - b.median_amount)) AS mad_amount,
+    AVG(ABS(pe."Amount" - b.median_amount)) AS mean_deviation
+  FROM peers pe
+  JOIN baseline b ON ${keyJoin('b', 'pe')}
+  GROUP BY ${keyList('pe')}
+),
+scored AS (
+  SELECT c."key", c."date", c."Amount", c."Agency_CD", c."Comptroller_Object_Num", c."Payee_id",
+    b.peer_count, b.median_amount, b.q1_amount, b.q3_amount, s.mad_amount,
+    CASE
+      WHEN s.mad_amount > 0 THEN (c."Amount" - b.median_amount) / (1.4826 * s.mad_amount)
+      WHEN s.mean_deviation > 0 THEN (c."Amount" - b.median_amount) / (1.2533 * s.mean_deviation)
+    END AS robust_z,
+    CASE
+      WHEN b.q3_amount = b.q1_amount THEN NULL
+      WHEN c."Amount" > b.q3_amount THEN (c."Amount" - b.q3_amount) / (b.q3_amount - b.q1_amount)
+      WHEN c."Amount" < b.q1_amount THEN (c."Amount" - b.q1_amount) / (b.q3_amount - b.q1_amount)
+      ELSE 0
+    END AS iqr_distance
+  FROM candidates c
+  JOIN baseline b ON ${keyJoin('b', 'c')}
+  JOIN spread s ON ${keyJoin('s', 'c')}
+)
+SELECT sc.*, pc."Payee_Name"
+FROM scored sc
+LEFT JOIN "payeeCodes" pc ON pc."Payee_id" = sc."Payee_id"
+WHERE ${flagged}
+ORDER BY ABS(${score}) DESC, sc."Amount" DESC
+LIMIT ${limit}`;
+
+  return { sqlQuery, threshold };
+}
+
+function optionalNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function toAnomaly(row: QueryRow): PaymentAnomaly {
+  return {
+    key: Number(row.key),
+    date: formatDate(row.date),
+    amount: Number(row.Amount),
+    agencyCode: Number(row.Agency_CD),
+    objectCode: Number(row.Comptroller_Object_Num),
+    payeeId: Number(row.Payee_id),
+    payeeName: row.Payee_Name === null || row.Payee_Name === undefined ? null : String(row.Payee_Name),
+    robustZ: optionalNumber(row.robust_z),
+    iqrDistance: optionalNumber(row.iqr_distance),
+    baseline: {
+      peerCount: Number(row.peer_count),
+      median: Number(row.median_amount),
+      mad: Number(row.mad_amount),
+      q1: Number(row.q1_amount),
+      q3: Number(row.q3_amount)
+    }
+  };
+}
+
+/**
+ * Score payments against their peer group and return the strongest outliers
+ */
+export async function findPaymentAnomalies(options: AnomalyOptions = {}): Promise<AnomalySearch> {
+  const { sqlQuery, threshold } = buildAnomalyQuery(options, await loadCompileOptions());
+  const { rows, error } = await runAnalysisQuery(sqlQuery, 'Anomaly');
+  return { sqlQuery, anomalies: rows.map(toAnomaly), threshold, error };
+}
@@ -0,0 +1,168 @@
+/**
+ * Period-over-period comparison by dimension
+ *
+ * "How did March compare to February", "Q2 vs Q3": one pass over the payments in either
+ * period, grouped by a dimension, with each period's dollars and payment count side by
+ * side. Periods use the resolvedEntities dateRange shape, so they can overlap or differ
+ * in length. Members paid only in the current period are new, members paid only in the
+ * baseline period are dropped. Slice totals and the new/dropped counts are window
+ * functions over every member, so they hold even when the rows are LIMITed.
+ */
+
+import { runAnalysisQuery } from './analysis-query';
+import type { QueryRow } from './data-source';
+import {
+  compilePaymentFilters,
+  dateRangeCondition,
+  dimensionDefinition,
+  expandResolvedEntities,
+  loadCompileOptions,
+  QuerySpecError,
+  type CompileOptions,
+  type QueryDimension,
+  type QuerySpec,
+  type ResolvedEntities
+} from './query-spec';
+
+// Every query dimension except month and quarter, whose members can't appear in both periods
+export const COMPARISON_DIMENSIONS = [
+  'agency', 'category', 'fund', 'fund_source', 'treasury_fund', 'appropriation', 'comptroller', 'payee', 'vendor', 'payee_type'
+] as const satisfies readonly QueryDimension[];
+
+export const COMPARISON_MEASURES = ['sum', 'count'] as const;
+
+export type ComparisonDimension = typeof COMPARISON_DIMENSIONS[number];
+export type ComparisonMeasure = typeof COMPARISON_MEASURES[number];
+export type DateRange = NonNullable<ResolvedEntities['dateRange']>;
+
+export const COMPARISON_DEFAULTS = {
+  limit: 20,
+  maxLimit: 200
+};
+
+export interface ComparisonOptions {
+  dimension: ComparisonDimension;
+  // The earlier or reference period
+  baselinePeriod: DateRange;
+  // The period being compared with the baseline
+  currentPeriod: DateRange;
+  measure?: ComparisonMeasure;
+  limit?: number;
+  // Any dateRange in the filters or resolvedEntities is ignored; the periods replace it
+  filters?: QuerySpec['filters'];
+  resolvedEntities?: ResolvedEntities;
+}
+
+export type MemberStatus = 'new' | 'dropped' | 'continuing';
+
+export interface MemberComparison {
+  name: string;
+  code: string | null;
+  baselineValue: number;
+  currentValue: number;
+  change: number;
+  // null when the baseline value is zero
+  changePercent: number | null;
+  status: MemberStatus;
+}
+
+export interface PeriodComparison {
+  sqlQuery: string;
+  measure: ComparisonMeasure;
+  members: MemberComparison[];
+  memberCount: number;
+  newCount: number;
+  droppedCount: number;
+  baselineTotal: number;
+  currentTotal: number;
+  // Set when the cost gate stopped the query
+  error?: string;
+}
+
+/**
+ * Members of the dimension with both periods' values, largest absolute change first
+ */
+export function buildComparisonQuery(options: ComparisonOptions, compileOptions: CompileOptions = {}): string {
+  const measure = options.measure ?? 'sum';
+  if (options.limit !== undefined && !Number.isFinite(options.limit)) {
+    throw new QuerySpecError('limit must be a number');
+  }
+  const limit = options.limit === undefined
+    ? COMPARISON_DEFAULTS.limit
+    : Math.min(Math.max(Math.floor(options.limit), 1), COMPARISON_DEFAULTS.maxLimit);
+
+  const definition = dimensionDefinition(options.dimension, compileOptions);
+  const baseline = dateRangeCondition(options.baselinePeriod, 'baselinePeriod');
+  const current = dateRangeCondition(options.currentPeriod, 'currentPeriod');
+  const { joins, where } = compilePaymentFilters(
+    { ...options.filters, dateRange: undefined },
+    { ...expandResolvedEntities(options.resolvedEntities), dateRange: undefined },
+    [options.dimension],
+    compileOptions
+  );
+  where.push(`(${baseline} OR ${current})`);
+
+  const value = (condition: string) => measure === 'sum'
+    ? `SUM(CASE WHEN ${condition} THEN p."Amount" ELSE 0 END)`
+    : `SUM(CASE WHEN ${condition} THEN 1 ELSE 0 END)`;
+  const [nameColumn, codeColumn] = definition.columns;
+
+  return `WITH members AS (
+  SELECT ${nameColumn.expr} AS member_name,
+    ${codeColumn?.expr ?? 'NULL'} AS member_code,
+    ${value(baseline)} AS baseline_value,
+    ${value(current)} AS current_value,
+    SUM(CASE WHEN ${baseline} THEN 1 ELSE 0 END) AS baseline_count,
+    SUM(CASE WHEN ${current} THEN 1 ELSE 0 END) AS current_count
+  FROM "payments" p
+${[...(definition.join ? [definition.join] : []), ...joins].flatMap(join => join.split('\n')).map(join => `  ${join}\n`).join('')}  WHERE ${where.join('\n    AND ')}
+  GROUP BY ${definition.columns.map(column => column.expr).join(', ')}
+)
+SELECT m.member_name, m.member_code, m.baseline_value, m.current_value,
+  m.current_value - m.baseline_value AS change_value,
+  CASE WHEN m.baseline_count = 0 THEN 'new' WHEN m.current_count = 0 THEN 'dropped' ELSE 'continuing' END AS member_status,
+  COUNT(*) OVER () AS member_count,
+  SUM(CASE WHEN m.baseline_count = 0 THEN 1 ELSE 0 END) OVER () AS new_count,
+  SUM(CASE WHEN m.current_count = 0 THEN 1 ELSE 0 END) OVER () AS dropped_count,
+  SUM(m.baseline_value) OVER () AS baseline_total,
+  SUM(m.current_value) OVER () AS current_total
+FROM members m
+ORDER BY ABS(m.current_value - m.baseline_value) DESC, m.member_name
+LIMIT ${limit}`;
+}
+
+function toMember(row: QueryRow): MemberComparison {
+  const baselineValue = Number(row.baseline_value);
+  const currentValue = Number(row.current_value);
+  return {
+    name: row.member_name === null || row.member_name === undefined ? 'Unknown' : String(row.member_name),
+    code: row.member_code === null || row.member_code === undefined ? null : String(row.member_code),
+    baselineValue,
+    currentValue,
+    change: currentValue - baselineValue,
+    changePercent: baselineValue === 0 ? null : (currentValue - baselineValue) / Math.abs(baselineValue) * 100,
+    status: row.member_status as MemberStatus
+  };
+}
+
+/**
+ * Compare two periods member by member
+ */
+export async function comparePeriods(options: ComparisonOptions): Promise<PeriodComparison> {
+  const measure = options.measure ?? 'sum';
+  const sqlQuery = buildComparisonQuery(options, await loadCompileOptions());
+  const { rows, error } = await runAnalysisQuery(sqlQuery, 'Period comparison');
+  const [first] = rows;
+
+  return {
+    sqlQuery,
+    measure,
+    members: rows.map(toMember),
+    memberCount: first ? Number(first.member_count) : 0,
+    newCount: first ? Number(first.new_count) : 0,
+    droppedCount: first ? Number(first.dropped_count) : 0,
+    baselineTotal: first ? Number(first.baseline_total) : 0,
+    currentTotal: first ? Number(first.current_total) : 0,
+    error
+  };
+}
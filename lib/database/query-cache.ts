@@ -0,0 +1,205 @@
+/**
+ * In-memory cache for executed analytics queries
+ *
+ * The model regenerates the same top-agency and monthly-trend queries over and over.
+ * Results are cached by normalized SQL, so queries that differ only in whitespace,
+ * keyword case or table aliases share an entry. Each entry also keeps how the results
+ * were produced (the query that actually ran after repairs or a downgrade, and the
+ * executor's report on it), so a hit answers exactly like the original run. Entries expire after a TTL, the cache
+ * is bounded by entry count and total rows, and it is cleared whenever the dataset
+ * version changes.
+ */
+
+import { getDataSource, type QueryRow } from './data-source';
+import { parseSql, sqlifyAst, walkAst } from './sql-validator';
+
+export interface QueryCacheConfig {
+  ttlMs: number;
+  maxEntries: number;
+  maxTotalRows: number;
+  // How often to re-check the dataset version
+  versionCheckIntervalMs: number;
+}
+
+export const QUERY_CACHE_CONFIG: QueryCacheConfig = {
+  ttlMs: Number(process.env.QUERY_CACHE_TTL_MS) || 10 * 60 * 1000,
+  maxEntries: Number(process.env.QUERY_CACHE_MAX_ENTRIES) || 200,
+  maxTotalRows: Number(process.env.QUERY_CACHE_MAX_ROWS) || 50000,
+  versionCheckIntervalMs: 60 * 1000
+};
+
+export interface CachedQueryResult<Execution = unknown> {
+  results: QueryRow[];
+  // Full row count when the results were truncated and a count was run
+  totalRows?: number;
+  // The caller's record of how the results were produced, returned as stored
+  execution: Execution;
+  cachedAt: string;
+  datasetVersion: string;
+}
+
+interface CacheEntry extends CachedQueryResult {
+  expiresAt: number;
+}
+
+type AstNode = Record<string, unknown>;
+
+/**
+ * Normalize SQL so equivalent queries produce the same cache key:
+ * table aliases are renamed in order of appearance and the AST is re-printed,
+ * which fixes whitespace, keyword case and identifier quoting.
+ */
+export function normalizeSqlForCache(sqlQuery: string): string {
+  try {
+    const statements = parseSql(sqlQuery.trim().replace(/;+\s*$/, ''));
+    const aliases = new Map<string, string>();
+
+    walkAst(statements, node => {
+      if (Array.isArray(node.from)) {
+        (node.from as AstNode[]).forEach(source => {
+          if (typeof source.as === 'string' && !aliases.has(source.as)) {
+            aliases.set(source.as, `t${aliases.size + 1}`);
+          }
+        });
+      }
+    });
+
+    walkAst(statements, node => {
+      if (Array.isArray(node.from)) {
+        (node.from as AstNode[]).forEach(source => {
+          if (typeof source.as === 'string') {
+            source.as = aliases.get(source.as) ?? source.as;
+          }
+        });
+      }
+      if (node.type === 'column_ref' && typeof node.table === 'string' && aliases.has(node.table)) {
+        node.table = aliases.get(node.table);
+      }
+    });
+
+    return statements.map(statement => sqlifyAst(statement)).join('; ');
+  } catch {
+    // Unparseable queries fall back to whitespace/case folding outside quotes
+    return sqlQuery
+      .trim()
+      .replace(/;+\s*$/, '')
+      .split(/('(?:[^']|'')*'|"[^"]*")/)
+      .map((part, i) => (i % 2 === 1 ? part : part.replace(/\s+/g, ' ').toLowerCase()))
+      .join('');
+  }
+}
+
+class QueryResultCache {
+  private entries = new Map<string, CacheEntry>();
+  private totalRows = 0;
+  private datasetVersion: string | null = null;
+  private versionCheckedAt = 0;
+
+  constructor(private readonly config: QueryCacheConfig) {}
+
+  async get<Execution>(sqlQuery: string): Promise<CachedQueryResult<Execution> | null> {
+    await this.checkDatasetVersion();
+
+    const key = normalizeSqlForCache(sqlQuery);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return {
+      results: entry.results,
+      totalRows: entry.totalRows,
+      execution: entry.execution as Execution,
+      cachedAt: entry.cachedAt,
+      datasetVersion: entry.datasetVersion
+    };
+  }
+
+  async set<Execution>(sqlQuery: string, results: QueryRow[], execution: Execution, totalRows?: number): Promise<void> {
+    if (results.length > this.config.maxTotalRows) {
+      return;
+    }
+
+    await this.checkDatasetVersion();
+
+    const key = normalizeSqlForCache(sqlQuery);
+    this.delete(key);
+
+    this.entries.set(key, {
+      results,
+      totalRows,
+      execution,
+      cachedAt: new Date().toISOString(),
+      datasetVersion: this.datasetVersion ?? 'unknown',
+      expiresAt: Date.now() + this.config.ttlMs
+    });
+    this.totalRows += results.length;
+
+    // Evict least recently used entries until back within bounds
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.config.maxEntries && this.totalRows <= this.config.maxTotalRows) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalRows = 0;
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalRows -= entry.results.length;
+      this.entries.delete(key);
+    }
+  }
+
+  private async checkDatasetVersion(): Promise<void> {
+    if (Date.now() - this.versionCheckedAt < this.config.versionCheckIntervalMs) {
+      return;
+    }
+    this.versionCheckedAt = Date.now();
+
+    const version = await resolveDatasetVersion();
+    if (version !== this.datasetVersion) {
+      this.clear();
+      this.datasetVersion = version;
+    }
+  }
+}
+
+/**
+ * Current dataset version: DATASET_VERSION if set, otherwise a fingerprint of payments
+ */
+export async function resolveDatasetVersion(): Promise<string> {
+  if (process.env.DATASET_VERSION) {
+    return process.env.DATASET_VERSION;
+  }
+
+  try {
+    const dataSource = await getDataSource();
+    const { data, error } = await dataSource.executeReadQuery(
+      'SELECT COUNT(*) AS row_count, MAX("key") AS max_key FROM "payments"'
+    );
+    if (error || !data?.[0]) {
+      return 'unknown';
+    }
+    return `${dataSource.name}:${data[0].row_count}:${data[0].max_key}`;
+  } catch {
+    return 'unknown';
+  }
+}
+
+export const queryResultCache = new QueryResultCache(QUERY_CACHE_CONFIG);
@@ -0,0 +1,268 @@
+/**
+ * Paged reads of full query results for CSV export
+ *
+ * execute_analytics_query caps each call at 1000 rows, so exports page through the
+ * result instead of fetching it in one call:
+ * - Queries with their own ORDER BY keep it and are paged with LIMIT/OFFSET on the query
+ *   itself. payments."key" (or the GROUP BY columns) is appended as a final tiebreaker so
+ *   rows tied on the user's order can't move between pages.
+ * - Unordered row-level queries over payments are paged with a keyset cursor on
+ *   payments."key" (injected into the select list when the query doesn't already return it).
+ * - Other unordered queries (grouped, aggregate, LIMITed, UNION) have no stable row key and
+ *   are paged with LIMIT/OFFSET, ordered by every output column so pages don't overlap.
+ */
+
+import { getDataSource, type QueryRow } from './data-source';
+import { parseSql, sqlifyAst } from './sql-validator';
+
+// Matches the row cap of the execute_analytics_query RPC
+export const EXPORT_PAGE_SIZE = 1000;
+
+// Hidden column added to row-level queries to carry the keyset cursor
+const EXPORT_KEY_COLUMN = '__export_key';
+
+type AstNode = Record<string, unknown>;
+
+export interface ExportPlan {
+  mode: 'keyset' | 'ordered' | 'offset';
+  // Query whose pages are read (may have the cursor column or the tiebreaker injected)
+  baseQuery: string;
+  // Output column used as the keyset cursor
+  cursorColumn: string | null;
+  // Columns to leave out of the exported rows
+  hiddenColumns: string[];
+  // The query's own LIMIT and OFFSET, applied across the pages of an ordered export
+  rowLimit: number | null;
+  rowOffset: number;
+}
+
+interface QueryLimit {
+  count: number | null;
+  offset: number;
+}
+
+function stripTrailingSemicolon(sqlQuery: string): string {
+  return sqlQuery.trim().replace(/;+\s*$/, '');
+}
+
+function isPaymentKeyColumn(expr: AstNode | undefined, paymentsRef: string): boolean {
+  if (!expr || expr.type !== 'column_ref') {
+    return false;
+  }
+  const column = expr.column as string | { expr?: { value?: string } };
+  const name = typeof column === 'string' ? column : column?.expr?.value;
+  return name === 'key' && (expr.table === null || expr.table === paymentsRef);
+}
+
+function hasAggregates(columns: AstNode[]): boolean {
+  return JSON.stringify(columns).includes('"type":"aggr_func"');
+}
+
+function paymentKeyRef(paymentsRef: string): AstNode {
+  return {
+    type: 'column_ref',
+    table: paymentsRef,
+    column: { expr: { type: 'double_quote_string', value: 'key' } }
+  };
+}
+
+// Numeric LIMIT and OFFSET of a statement; null for LIMIT ALL or parameters
+function readLimit(statement: AstNode): QueryLimit | null {
+  const limit = statement.limit as { seperator?: string; value?: Array<{ type: string; value: unknown }> } | null;
+  const values = limit?.value ?? [];
+  if (values.length === 0) {
+    return { count: null, offset: 0 };
+  }
+  if (values.some(value => value.type !== 'number')) {
+    return null;
+  }
+  // MySQL-style "LIMIT offset, count" lists the offset first
+  const [count, offset = { value: 0 }] = limit?.seperator === ',' ? [values[1], values[0]] : values;
+  return { count: Number(count.value), offset: Number(offset.value) };
+}
+
+/**
+ * Decide how to page a validated SELECT query
+ */
+export function planExport(sqlQuery: string): ExportPlan {
+  const cleanQuery = stripTrailingSemicolon(sqlQuery);
+  const offsetPlan: ExportPlan = {
+    mode: 'offset',
+    baseQuery: cleanQuery,
+    cursorColumn: null,
+    hiddenColumns: [],
+    rowLimit: null,
+    rowOffset: 0
+  };
+
+  let statement: AstNode;
+  try {
+    [statement] = parseSql(cleanQuery);
+  } catch {
+    return offsetPlan;
+  }
+
+  const from = (statement.from as AstNode[] | null) ?? [];
+  const columns = (statement.columns as AstNode[] | null) ?? [];
+  const payments = from.find(source => source.table === 'payments');
+  const paymentsRef = (payments?.as as string | null) ?? 'payments';
+  const groupBy = (statement.groupby as { columns?: AstNode[] | null } | null)?.columns ?? [];
+  const isDistinct = Boolean((statement.distinct as { type?: string } | null)?.type);
+  const isRowLevel = Boolean(payments) && groupBy.length === 0 && !isDistinct && !hasAggregates(columns);
+  const orderBy = (statement.orderby as AstNode[] | null) ?? [];
+  const limit = readLimit(statement);
+
+  // A UNION's ORDER BY and LIMIT belong to the whole union, not to this statement
+  if (statement._next || !limit) {
+    return offsetPlan;
+  }
+
+  if (orderBy.length > 0) {
+    // DISTINCT only allows ORDER BY on output columns, so it gets no tiebreaker
+    const tiebreakers = isDistinct ? [] : isRowLevel ? [paymentKeyRef(paymentsRef)] : groupBy;
+    statement.orderby = [...orderBy, ...tiebreakers.map(expr => ({ expr, type: 'ASC' }))];
+    statement.limit = null;
+    return {
+      mode: 'ordered',
+      baseQuery: sqlifyAst(statement),
+      cursorColumn: null,
+      hiddenColumns: [],
+      rowLimit: limit.count,
+      rowOffset: limit.offset
+    };
+  }
+
+  if (!isRowLevel || limit.count !== null) {
+    return offsetPlan;
+  }
+
+  const existingKey = columns.find(column => isPaymentKeyColumn(column.expr as AstNode, paymentsRef));
+  if (existingKey) {
+    return {
+      mode: 'keyset',
+      baseQuery: sqlifyAst(statement),
+      cursorColumn: (existingKey.as as string | null) ?? 'key',
+      hiddenColumns: [],
+      rowLimit: null,
+      rowOffset: 0
+    };
+  }
+
+  // SELECT * already carries "key"
+  if (columns.some(column => (column.expr as AstNode | undefined)?.column === '*' && !(column.expr as AstNode).table)) {
+    return { mode: 'keyset', baseQuery: sqlifyAst(statement), cursorColumn: 'key', hiddenColumns: [], rowLimit: null, rowOffset: 0 };
+  }
+
+  statement.columns = [
+    ...columns,
+    { type: 'expr', expr: paymentKeyRef(paymentsRef), as: EXPORT_KEY_COLUMN }
+  ];
+
+  return {
+    mode: 'keyset',
+    baseQuery: sqlifyAst(statement),
+    cursorColumn: EXPORT_KEY_COLUMN,
+    hiddenColumns: [EXPORT_KEY_COLUMN],
+    rowLimit: null,
+    rowOffset: 0
+  };
+}
+
+function toSqlLiteral(value: unknown): string {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return String(value);
+  }
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+/**
+ * Count the rows a query returns
+ */
+export async function countQueryRows(sqlQuery: string): Promise<number> {
+  const dataSource = await getDataSource();
+  const { data, error } = await dataSource.executeReadQuery(
+    `SELECT COUNT(*) AS total_rows FROM (${stripTrailingSemicolon(sqlQuery)}) AS export_count`
+  );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return Number(data?.[0]?.total_rows ?? 0);
+}
+
+/**
+ * Read every row of a query, one page at a time
+ */
+export async function* readQueryPages(
+  plan: ExportPlan,
+  pageSize: number = EXPORT_PAGE_SIZE
+): AsyncGenerator<QueryRow[]> {
+  const dataSource = await getDataSource();
+  let cursor: unknown = null;
+  let offset = 0;
+
+  // Positional ORDER BY over every output column keeps OFFSET pages stable
+  let offsetOrderBy = '';
+  if (plan.mode === 'offset') {
+    const { data: probe, error: probeError } = await dataSource.executeReadQuery(
+      `SELECT * FROM (${plan.baseQuery}) AS export_probe LIMIT 1`
+    );
+    if (probeError) {
+      throw new Error(probeError.message);
+    }
+    if (!probe || probe.length === 0) {
+      return;
+    }
+    offsetOrderBy = Object.keys(probe[0]).map((_, i) => i + 1).join(', ');
+  }
+
+  while (true) {
+    // An ordered export stops where the query's own LIMIT does
+    const rowsWanted = plan.rowLimit === null ? pageSize : Math.min(pageSize, plan.rowLimit - offset);
+    if (rowsWanted <= 0) {
+      return;
+    }
+
+    let pageQuery: string;
+    if (plan.mode === 'keyset') {
+      const cursorRef = `export_page."${plan.cursorColumn}"`;
+      const where = cursor === null ? '' : ` WHERE ${cursorRef} > ${toSqlLiteral(cursor)}`;
+      pageQuery = `SELECT * FROM (${plan.baseQuery}) AS export_page${where} ORDER BY ${cursorRef} LIMIT ${pageSize}`;
+    } else if (plan.mode === 'ordered') {
+      // LIMIT/OFFSET on the query itself, so its ORDER BY decides the row order
+      const offsetClause = plan.rowOffset + offset > 0 ? ` OFFSET ${plan.rowOffset + offset}` : '';
+      pageQuery = `${plan.baseQuery}\nLIMIT ${rowsWanted}${offsetClause}`;
+    } else {
+      pageQuery = `SELECT * FROM (${plan.baseQuery}) AS export_page ORDER BY ${offsetOrderBy} LIMIT ${pageSize} OFFSET ${offset}`;
+    }
+
+    const { data, error } = await dataSource.executeReadQuery(pageQuery);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rows = data ?? [];
+    if (rows.length === 0) {
+      return;
+    }
+
+    if (plan.mode === 'keyset') {
+      cursor = rows[rows.length - 1][plan.cursorColumn!];
+    }
+    offset += rows.length;
+
+    yield rows.map(row => {
+      if (plan.hiddenColumns.length === 0) {
+        return row;
+      }
+      const visibleRow = { ...row };
+      plan.hiddenColumns.forEach(column => delete visibleRow[column]);
+      return visibleRow;
+    });
+
+    if (rows.length < rowsWanted) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Row limits for interactive analytics queries
+ *
+ * The execution layer owns the limit instead of the generator or the RPC: it rewrites
+ * or appends LIMIT n+1 itself, so one extra row tells it whether the result was
+ * actually truncated, and the caller can report the true state.
+ */
+
+import { parseSql } from './sql-validator';
+import type { QueryRow } from './data-source';
+
+export interface QueryRowLimits {
+  // Rows returned when the caller doesn't ask for a number
+  defaultRows: number;
+  // execute_analytics_query returns at most 1000 rows, which must include the probe row
+  maxRows: number;
+  // Only run the separate COUNT(*) when the plan scans at most this many rows
+  countMaxScannedRows: number;
+}
+
+export const QUERY_ROW_LIMITS: QueryRowLimits = {
+  defaultRows: Number(process.env.QUERY_DEFAULT_ROWS) || 100,
+  maxRows: 999,
+  countMaxScannedRows: Number(process.env.QUERY_COUNT_MAX_SCANNED_ROWS) || 1_000_000
+};
+
+export interface RowLimitPlan {
+  // Query to execute
+  query: string;
+  // Row cap enforced by the execution layer, or null when the query's own LIMIT is tighter
+  limitApplied: number | null;
+  // LIMIT written in the query itself, if any
+  queryLimit: number | null;
+}
+
+type AstNode = Record<string, unknown>;
+
+const TRAILING_LIMIT = /\bLIMIT\s+\d+(?:\s+OFFSET\s+(\d+))?\s*$/i;
+
+function stripTrailingSemicolon(sqlQuery: string): string {
+  return sqlQuery.trim().replace(/;\s*$/, '');
+}
+
+// Numeric LIMIT of the outermost statement (the last branch of a UNION holds it)
+function readQueryLimit(sqlQuery: string): number | null | 'unknown' {
+  let statement: AstNode;
+  try {
+    statement = parseSql(sqlQuery)[0];
+  } catch {
+    return 'unknown';
+  }
+
+  while (statement._next) {
+    statement = statement._next as AstNode;
+  }
+
+  const limitValue = (statement.limit as { value?: Array<{ type: string; value: unknown }> } | null)?.value?.[0];
+  if (!limitValue) {
+    return null;
+  }
+  return limitValue.type === 'number' ? Number(limitValue.value) : 'unknown';
+}
+
+/**
+ * Cap a query at maxRows, fetching one extra row to detect truncation.
+ * A non-zero offset skips rows already shown, for the pages after the first.
+ */
+export function applyRowLimit(sqlQuery: string, maxRows: number, offset: number = 0): RowLimitPlan {
+  const query = stripTrailingSemicolon(sqlQuery);
+  const queryLimit = readQueryLimit(query);
+  const offsetClause = (baseOffset: number) => baseOffset + offset > 0 ? ` OFFSET ${baseOffset + offset}` : '';
+
+  if (queryLimit === null) {
+    return { query: `${query}\nLIMIT ${maxRows + 1}${offsetClause(0)}`, limitApplied: maxRows, queryLimit: null };
+  }
+
+  // Rows the query's own LIMIT still allows from this offset on
+  const numericLimit = queryLimit === 'unknown' ? null : queryLimit;
+  const remaining = numericLimit === null ? null : Math.max(numericLimit - offset, 0);
+
+  if (remaining !== null && remaining <= maxRows && offset === 0) {
+    return { query, limitApplied: null, queryLimit: numericLimit };
+  }
+
+  const trailingLimit = query.match(TRAILING_LIMIT);
+  if (remaining !== null && trailingLimit) {
+    const limitApplied = remaining <= maxRows ? null : maxRows;
+    const rowsToFetch = limitApplied === null ? remaining : maxRows + 1;
+    return {
+      query: query.replace(TRAILING_LIMIT, `LIMIT ${rowsToFetch}${offsetClause(Number(trailingLimit[1] ?? 0))}`),
+      limitApplied,
+      queryLimit: numericLimit
+    };
+  }
+
+  // LIMIT ALL, parameters or a clause order we can't rewrite in place
+  return {
+    query: `SELECT * FROM (${query}) AS limited_rows\nLIMIT ${maxRows + 1}${offsetClause(0)}`,
+    limitApplied: maxRows,
+    queryLimit: numericLimit
+  };
+}
+
+/**
+ * Drop the probe row and report whether it was there
+ */
+export function trimToLimit(rows: QueryRow[], plan: RowLimitPlan): { rows: QueryRow[]; truncated: boolean } {
+  if (plan.limitApplied === null || rows.length <= plan.limitApplied) {
+    return { rows, truncated: false };
+  }
+  return { rows: rows.slice(0, plan.limitApplied), truncated: true };
+}
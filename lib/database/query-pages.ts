@@ -0,0 +1,125 @@
+/**
+ * Paginated query results
+ *
+ * executeAnalyticsQueryTool returns the first page plus a cursor token. The token
+ * carries the executed SQL and the next offset, signed with HMAC so the pages route
+ * only ever runs queries the executor already validated and cost-checked. CSV download
+ * tokens are signed the same way with another purpose, so neither route accepts the
+ * other's tokens.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getDataSource, type QueryRow } from './data-source';
+import { applyRowLimit, trimToLimit, QUERY_ROW_LIMITS } from './query-limits';
+import { formatRowDates } from './row-dates';
+
+// page: /api/query-pages cursors; export: /api/download-csv tokens
+export type QueryCursorPurpose = 'page' | 'export';
+
+interface QueryCursorPayload {
+  purpose: QueryCursorPurpose;
+  sqlQuery: string;
+  offset: number;
+  pageSize: number;
+  expiresAt: number;
+}
+
+export interface QueryPage {
+  results: QueryRow[];
+  rowCount: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
+export class QueryCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryCursorError';
+  }
+}
+
+const QUERY_CURSOR_TTL_MS = Number(process.env.QUERY_CURSOR_TTL_MS) || 60 * 60 * 1000;
+
+let cursorSecret: string | null = null;
+
+function getCursorSecret(): string {
+  if (!cursorSecret) {
+    cursorSecret = process.env.QUERY_CURSOR_SECRET || null;
+    if (!cursorSecret) {
+      // Cursors still work, but only until the server restarts
+      console.warn('QUERY_CURSOR_SECRET is not set - using a per-process secret for query cursors');
+      cursorSecret = randomBytes(32).toString('hex');
+    }
+  }
+  return cursorSecret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getCursorSecret()).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Create a signed cursor for the page starting at offset
+ */
+export function createQueryCursor(sqlQuery: string, offset: number, pageSize: number, purpose: QueryCursorPurpose = 'page'): string {
+  const payload: QueryCursorPayload = {
+    purpose,
+    sqlQuery,
+    offset,
+    pageSize,
+    expiresAt: Date.now() + QUERY_CURSOR_TTL_MS
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verify a cursor token made for purpose and return its payload
+ */
+export function readQueryCursor(cursor: string, purpose: QueryCursorPurpose = 'page'): QueryCursorPayload {
+  const [encodedPayload, signature] = String(cursor).split('.');
+  if (!encodedPayload || !signature) {
+    throw new QueryCursorError('Malformed cursor');
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new QueryCursorError('Invalid cursor signature');
+  }
+
+  const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()) as QueryCursorPayload;
+  if (payload.purpose !== purpose) {
+    throw new QueryCursorError(purpose === 'page' ? 'Not a query page cursor' : 'Not a download token');
+  }
+  if (payload.expiresAt < Date.now()) {
+    throw new QueryCursorError('Cursor has expired - run the query again');
+  }
+
+  return payload;
+}
+
+/**
+ * Fetch the page a cursor points at, with a cursor for the page after it
+ */
+export async function fetchQueryPage(cursor: string): Promise<QueryPage> {
+  const { sqlQuery, offset, pageSize } = readQueryCursor(cursor);
+  const limit = Math.min(pageSize, QUERY_ROW_LIMITS.maxRows);
+
+  const plan = applyRowLimit(sqlQuery, limit, offset);
+  const dataSource = await getDataSource();
+  const { data, error } = await dataSource.executeReadQuery(plan.query);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const { rows, truncated } = trimToLimit((data ?? []).map(formatRowDates), plan);
+
+  return {
+    results: rows,
+    rowCount: rows.length,
+    offset,
+    nextCursor: truncated ? createQueryCursor(sqlQuery, offset + rows.length, limit) : null
+  };
+}
@@ -0,0 +1,508 @@
+/**
+ * Structured Query Specification for analytics queries
+ *
+ * Instead of trusting free-form SQL from the model, generateAnalyticsQueryTool asks for a
+ * typed spec (dimensions, measures, filters, sort, limit) and compiles it here into
+ * correctly-quoted SQL using the validated join patterns from schema-context.ts.
+ */
+
+import { z } from 'zod';
+import { expandAgencyGroups } from './agency-groups';
+import { PAYEE_TYPES, payeeTypesAvailable } from './payee-types';
+import { vendorClustersAvailable } from './vendor-clusters';
+import { FUND_SOURCES, FUND_SOURCE_LABELS, fundSourceExpression, getFundSourceCodes, type FundSource, type FundSourceCodes } from './fund-sources';
+
+// Entity IDs resolved by the lookup tools, shared by every SQL generation tool
+export const resolvedEntitiesSchema = z.object({
+  agencyIds: z.array(z.number()).optional(),
+  agencyGroupIds: z.array(z.string()).optional()
+    .describe('Agency group IDs from getAgencyCodeTool (e.g. "ut-system"); expanded to every member agency code'),
+  categoryIds: z.array(z.number()).optional(),
+  fundIds: z.array(z.number()).optional()
+    .describe('Treasury fund numbers (fundCodes."Fund_Num") from getFundCode - not application funds'),
+  payeeIds: z.array(z.number()).optional(),
+  vendorIds: z.array(z.number()).optional()
+    .describe('Vendor entity IDs from getPayeeCodeTool; each covers every payee ID spelling of that vendor'),
+  appropriationIds: z.array(z.number()).optional()
+    .describe('Appropriation numbers from getAppropriationCode'),
+  fundSources: z.array(z.enum(FUND_SOURCES)).optional()
+    .describe('Only money from these sources, e.g. ["federal"] for "how much was federal money"'),
+  comptrollerIds: z.array(z.number()).optional(),
+  applicationFundIds: z.array(z.number()).optional(),
+  dateRange: z.object({
+    start: z.string(),
+    end: z.string()
+  }).optional()
+});
+
+export type ResolvedEntities = z.infer<typeof resolvedEntitiesSchema>;
+
+export const QUERY_DIMENSIONS = ['agency', 'category', 'fund', 'fund_source', 'treasury_fund', 'appropriation', 'comptroller', 'payee', 'vendor', 'payee_type', 'month', 'quarter'] as const;
+export const QUERY_MEASURES = ['sum', 'count', 'avg', 'min', 'max', 'percent_of_total'] as const;
+
+export type QueryDimension = typeof QUERY_DIMENSIONS[number];
+export type QueryMeasure = typeof QUERY_MEASURES[number];
+
+export const querySpecSchema = z.object({
+  dimensions: z.array(z.enum(QUERY_DIMENSIONS))
+    .describe('What to group by. Empty for a single overall total. fund is the application (appropriated) fund, fund_source its source of money (General Revenue, GR-Dedicated, Federal, Other), treasury_fund the finer fundCodes fund, appropriation the appropriation line item. vendor merges payee spellings of one company. payee_type groups payees into individuals, companies, school districts, governments etc. month/quarter produce time series.'),
+  measures: z.array(z.enum(QUERY_MEASURES)).min(1)
+    .describe('sum = total dollars, count = number of payments, avg/min/max = payment amount statistics, percent_of_total = share of the overall sum'),
+  filters: z.object({
+    agencyIds: z.array(z.number()).optional(),
+    categoryIds: z.array(z.number()).optional(),
+    applicationFundIds: z.array(z.number()).optional(),
+    fundIds: z.array(z.number()).optional().describe('Treasury fund numbers (fundCodes) from getFundCode'),
+    appropriationIds: z.array(z.number()).optional().describe('Appropriation numbers from getAppropriationCode'),
+    fundSources: z.array(z.enum(FUND_SOURCES)).optional().describe('general_revenue, gr_dedicated, federal or other'),
+    comptrollerIds: z.array(z.number()).optional(),
+    payeeIds: z.array(z.number()).optional(),
+    vendorIds: z.array(z.number()).optional(),
+    payeeTypes: z.array(z.enum(PAYEE_TYPES)).optional()
+      .describe('Only payees of these types, e.g. ["school_district"] or ["company"]'),
+    dateRange: z.object({
+      start: z.string().describe('YYYY-MM-DD'),
+      end: z.string().describe('YYYY-MM-DD')
+    }).optional(),
+    minAmount: z.number().optional().describe('Only payments of at least this many dollars'),
+    maxAmount: z.number().optional().describe('Only payments of at most this many dollars'),
+    excludeConfidentialPayees: z.boolean().optional().describe('Leave out "Confidential" individual recipients')
+  }),
+  sort: z.array(z.object({
+    by: z.string().describe('A dimension or measure name from this spec'),
+    direction: z.enum(['asc', 'desc'])
+  })).optional().describe('Defaults to time ascending for time series, otherwise the first measure descending'),
+  limit: z.number().optional().describe('Top N rows. Leave out to let the executor apply its row limit')
+});
+
+export type QuerySpec = z.infer<typeof querySpecSchema>;
+
+export interface DimensionDefinition {
+  join?: string;
+  columns: Array<{ expr: string; alias: string }>;
+  // Output column used when sorting by this dimension
+  sortColumn: string;
+  isTime?: boolean;
+}
+
+export interface CompileOptions {
+  // False when payeeVendorClusters hasn't been built (see vendorClustersAvailable);
+  // vendors are then the individual payees
+  vendorClusters?: boolean;
+  // False when payeeTypes hasn't been built (see payeeTypesAvailable); every payee is
+  // then "other" and payee type filters are rejected
+  payeeTypes?: boolean;
+  // Application fund codes per source (see getFundSourceCodes); required by the fund_source
+  // dimension and the fundSources filter
+  fundSourceCodes?: FundSourceCodes;
+}
+
+/**
+ * Compile options for the current data source: which payee tables have been built and
+ * the fund source classification of the loaded application funds
+ */
+export async function loadCompileOptions(): Promise<CompileOptions> {
+  const [vendorClusters, payeeTypes, fundSourceCodes] = await Promise.all([
+    vendorClustersAvailable(),
+    payeeTypesAvailable(),
+    getFundSourceCodes()
+  ]);
+  return { vendorClusters, payeeTypes, fundSourceCodes };
+}
+
+// Without the cluster table each payee is its own vendor
+const PAYEE_VENDOR_DEFINITION: DimensionDefinition = {
+  join: 'JOIN "payeeCodes" vpc ON p."Payee_id" = vpc."Payee_id"',
+  columns: [
+    { expr: 'vpc."Payee_Name"', alias: 'vendor_name' },
+    { expr: 'p."Payee_id"', alias: 'vendor_id' }
+  ],
+  sortColumn: 'vendor_name'
+};
+
+// Without the type table no payee has been tagged. Cast so PostgreSQL accepts the
+// constant in GROUP BY.
+const UNTYPED_PAYEE_TYPE_DEFINITION: DimensionDefinition = {
+  columns: [{ expr: "CAST('other' AS TEXT)", alias: 'payee_type' }],
+  sortColumn: 'payee_type'
+};
+
+// Join patterns from the VALIDATED QUERY PATTERNS in schema-context.ts
+const DIMENSION_DEFINITIONS: Record<QueryDimension, DimensionDefinition> = {
+  agency: {
+    join: 'JOIN "agencyCodes" a ON p."Agency_CD" = a."Agency_CD"',
+    columns: [
+      { expr: 'a."Agency_Name"', alias: 'agency_name' },
+      { expr: 'p."Agency_CD"', alias: 'agency_code' }
+    ],
+    sortColumn: 'agency_name'
+  },
+  category: {
+    join: 'JOIN "categoryCodes" c ON p."CatCode" = c."CatCode"',
+    columns: [
+      { expr: 'c."Category"', alias: 'category' },
+      { expr: 'p."CatCode"', alias: 'category_code' }
+    ],
+    sortColumn: 'category'
+  },
+  fund: {
+    join: 'JOIN "applicationFundCodes" af ON p."Appd_Fund_Num" = af."Appd_Fund_Num"',
+    columns: [
+      { expr: 'af."Appd_Fund_Num_Name"', alias: 'fund_name' },
+      { expr: 'p."Appd_Fund_Num"', alias: 'fund_code' }
+    ],
+    sortColumn: 'fund_name'
+  },
+  // Columns are compiled from CompileOptions.fundSourceCodes in dimensionDefinition
+  fund_source: {
+    columns: [],
+    sortColumn: 'fund_source'
+  },
+  treasury_fund: {
+    join: 'JOIN "fundCodes" f ON p."Fund_Num" = f."Fund_Num"',
+    columns: [
+      { expr: 'f."Fund_Description"', alias: 'treasury_fund_name' },
+      { expr: 'p."Fund_Num"', alias: 'treasury_fund_code' }
+    ],
+    sortColumn: 'treasury_fund_name'
+  },
+  appropriation: {
+    join: 'JOIN "appropriationNameCodes" ap ON p."Appropriation_Number" = ap."Appropriation_Number"',
+    columns: [
+      { expr: 'ap."Appropriation_Name"', alias: 'appropriation_name' },
+      { expr: 'p."Appropriation_Number"', alias: 'appropriation_number' }
+    ],
+    sortColumn: 'appropriation_name'
+  },
+  comptroller: {
+    join: 'JOIN "comptrollerCodes" comp ON p."Comptroller_Object_Num" = comp."Comptroller_Object_Num"',
+    columns: [
+      { expr: 'comp."Comptroller_Object_Name"', alias: 'comptroller_object' },
+      { expr: 'p."Comptroller_Object_Num"', alias: 'comptroller_code' }
+    ],
+    sortColumn: 'comptroller_object'
+  },
+  payee: {
+    join: 'JOIN "payeeCodes" pc ON p."Payee_id" = pc."Payee_id"',
+    columns: [
+      { expr: 'pc."Payee_Name"', alias: 'payee_name' },
+      { expr: 'p."Payee_id"', alias: 'payee_id' }
+    ],
+    sortColumn: 'payee_name'
+  },
+  // Payees added since the last cluster build count as their own vendor
+  vendor: {
+    join: 'LEFT JOIN "payeeVendorClusters" vc ON p."Payee_id" = vc."Payee_id"\nLEFT JOIN "payeeCodes" vpc ON p."Payee_id" = vpc."Payee_id"',
+    columns: [
+      { expr: 'COALESCE(vc."Vendor_Name", vpc."Payee_Name")', alias: 'vendor_name' },
+      { expr: 'COALESCE(vc."Vendor_id", p."Payee_id")', alias: 'vendor_id' }
+    ],
+    sortColumn: 'vendor_name'
+  },
+  payee_type: {
+    // Payees added since the last build have no row yet and count as "other"
+    join: 'LEFT JOIN "payeeTypes" pt ON p."Payee_id" = pt."Payee_id"',
+    columns: [{ expr: 'COALESCE(pt."Payee_Type", \'other\')', alias: 'payee_type' }],
+    sortColumn: 'payee_type'
+  },
+  month: {
+    columns: [{ expr: `DATE_TRUNC('month', p."date")`, alias: 'month' }],
+    sortColumn: 'month',
+    isTime: true
+  },
+  quarter: {
+    columns: [{ expr: `DATE_TRUNC('quarter', p."date")`, alias: 'quarter' }],
+    sortColumn: 'quarter',
+    isTime: true
+  }
+};
+
+const MEASURE_DEFINITIONS: Record<QueryMeasure, { expr: string; alias: string }> = {
+  sum: { expr: 'SUM(p."Amount")', alias: 'total_amount' },
+  count: { expr: 'COUNT(*)', alias: 'payment_count' },
+  avg: { expr: 'ROUND(AVG(p."Amount"), 2)', alias: 'avg_amount' },
+  min: { expr: 'MIN(p."Amount")', alias: 'min_amount' },
+  max: { expr: 'MAX(p."Amount")', alias: 'max_amount' },
+  percent_of_total: {
+    expr: 'ROUND(SUM(p."Amount") * 100.0 / NULLIF(SUM(SUM(p."Amount")) OVER (), 0), 2)',
+    alias: 'percent_of_total'
+  }
+};
+
+/**
+ * Join and output columns of a dimension, for analysis queries that group payments p
+ */
+export function dimensionDefinition(dimension: QueryDimension, options: CompileOptions = {}): DimensionDefinition {
+  if (dimension === 'vendor' && options.vendorClusters === false) {
+    return PAYEE_VENDOR_DEFINITION;
+  }
+  if (dimension === 'payee_type' && options.payeeTypes === false) {
+    return UNTYPED_PAYEE_TYPE_DEFINITION;
+  }
+  if (dimension === 'fund_source') {
+    return {
+      ...DIMENSION_DEFINITIONS.fund_source,
+      columns: [{ expr: fundSourceExpression(requireFundSourceCodes(options)), alias: 'fund_source' }]
+    };
+  }
+  return DIMENSION_DEFINITIONS[dimension];
+}
+
+function requireFundSourceCodes(options: CompileOptions): FundSourceCodes {
+  if (!options.fundSourceCodes) {
+    throw new Error('Fund sources need CompileOptions.fundSourceCodes - compile with loadCompileOptions()');
+  }
+  return options.fundSourceCodes;
+}
+
+export class QuerySpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuerySpecError';
+  }
+}
+
+export interface CompiledQuery {
+  sqlQuery: string;
+  columns: string[];
+}
+
+function integerList(values: number[], field: string): string {
+  values.forEach(value => {
+    if (!Number.isInteger(value)) {
+      throw new QuerySpecError(`${field} must contain integer codes, got ${value}`);
+    }
+  });
+  return values.join(', ');
+}
+
+function payeeTypeList(values: string[]): string {
+  values.forEach(value => {
+    if (!(PAYEE_TYPES as readonly string[]).includes(value)) {
+      throw new QuerySpecError(`Unknown payee type "${value}" - expected one of ${PAYEE_TYPES.join(', ')}`);
+    }
+  });
+  return values.map(value => `'${value}'`).join(', ');
+}
+
+function fundSourceList(values: string[]): string {
+  return values.map(value => {
+    if (!(FUND_SOURCES as readonly string[]).includes(value)) {
+      throw new QuerySpecError(`Unknown fund source "${value}" - expected one of ${FUND_SOURCES.join(', ')}`);
+    }
+    return `'${FUND_SOURCE_LABELS[value as FundSource]}'`;
+  }).join(', ');
+}
+
+function dateLiteral(value: string, field: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new QuerySpecError(`${field} must be a YYYY-MM-DD date, got "${value}"`);
+  }
+  return `'${value}'`;
+}
+
+function amountLiteral(value: number, field: string): string {
+  if (!Number.isFinite(value)) {
+    throw new QuerySpecError(`${field} must be a number`);
+  }
+  return String(value);
+}
+
+/**
+ * WHERE condition keeping payments p inside a dateRange (both ends inclusive)
+ */
+export function dateRangeCondition(dateRange: NonNullable<ResolvedEntities['dateRange']>, field = 'dateRange'): string {
+  const start = dateLiteral(dateRange.start, `${field}.start`);
+  const end = dateLiteral(dateRange.end, `${field}.end`);
+  if (dateRange.start > dateRange.end) {
+    throw new QuerySpecError(`${field} ends (${dateRange.end}) before it starts (${dateRange.start})`);
+  }
+  return `p."date" BETWEEN ${start} AND ${end}`;
+}
+
+/**
+ * Replace agencyGroupIds with the member codes, merged into agencyIds
+ */
+export function expandResolvedEntities(resolvedEntities: ResolvedEntities = {}): ResolvedEntities {
+  const { agencyGroupIds, ...entities } = resolvedEntities;
+  if (!agencyGroupIds || agencyGroupIds.length === 0) {
+    return entities;
+  }
+
+  const { codes, unknownIds } = expandAgencyGroups(agencyGroupIds);
+  if (unknownIds.length > 0) {
+    throw new QuerySpecError(`Unknown agency group: ${unknownIds.join(', ')}`);
+  }
+  return { ...entities, agencyIds: [...new Set([...(entities.agencyIds ?? []), ...codes])] };
+}
+
+export interface PaymentFilterClauses {
+  // Joins the filters need, on top of the payments alias p
+  joins: string[];
+  where: string[];
+}
+
+/**
+ * Compile spec filters and resolved entities into WHERE conditions on payments p.
+ * Lookup tables already joined for one of the given dimensions aren't joined again.
+ * resolvedEntities must already be expanded with expandResolvedEntities.
+ */
+export function compilePaymentFilters(
+  filters: QuerySpec['filters'],
+  resolvedEntities: ResolvedEntities = {},
+  dimensions: QueryDimension[] = [],
+  options: CompileOptions = {}
+): PaymentFilterClauses {
+  const joins: string[] = [];
+  const where: string[] = [];
+  const entityFilters: Array<[keyof ResolvedEntities & keyof QuerySpec['filters'], string]> = [
+    ['agencyIds', 'p."Agency_CD"'],
+    ['categoryIds', 'p."CatCode"'],
+    ['applicationFundIds', 'p."Appd_Fund_Num"'],
+    ['fundIds', 'p."Fund_Num"'],
+    ['appropriationIds', 'p."Appropriation_Number"'],
+    ['comptrollerIds', 'p."Comptroller_Object_Num"'],
+    ['payeeIds', 'p."Payee_id"']
+  ];
+
+  entityFilters.forEach(([field, column]) => {
+    const ids = (resolvedEntities[field] ?? filters[field]) as number[] | undefined;
+    if (ids && ids.length > 0) {
+      where.push(ids.length === 1
+        ? `${column} = ${integerList(ids, field)}`
+        : `${column} IN (${integerList(ids, field)})`);
+    }
+  });
+
+  // Vendors are a cluster of payee IDs, so filter through the cluster table
+  const vendorIds = resolvedEntities.vendorIds ?? filters.vendorIds;
+  if (vendorIds && vendorIds.length > 0) {
+    const vendor = dimensionDefinition('vendor', options);
+    const vendorColumn = vendor.columns[1].expr;
+    if (options.vendorClusters !== false && !dimensions.includes('vendor')) {
+      joins.push(vendor.join!);
+    }
+    where.push(vendorIds.length === 1
+      ? `${vendorColumn} = ${integerList(vendorIds, 'vendorIds')}`
+      : `${vendorColumn} IN (${integerList(vendorIds, 'vendorIds')})`);
+  }
+
+  if (filters.payeeTypes && filters.payeeTypes.length > 0) {
+    // Every payee would be "other", which silently answers with the wrong payments
+    if (options.payeeTypes === false) {
+      throw new QuerySpecError('Filtering by payee type needs the payee types - run npm run build:payee-types first');
+    }
+    const payeeType = DIMENSION_DEFINITIONS.payee_type;
+    if (!dimensions.includes('payee_type')) {
+      joins.push(payeeType.join!);
+    }
+    where.push(`${payeeType.columns[0].expr} IN (${payeeTypeList(filters.payeeTypes)})`);
+  }
+
+  const fundSources = resolvedEntities.fundSources ?? filters.fundSources;
+  if (fundSources && fundSources.length > 0) {
+    where.push(`${fundSourceExpression(requireFundSourceCodes(options))} IN (${fundSourceList(fundSources)})`);
+  }
+
+  const dateRange = resolvedEntities.dateRange ?? filters.dateRange;
+  if (dateRange) {
+    where.push(dateRangeCondition(dateRange));
+  }
+  if (filters.minAmount !== undefined) {
+    where.push(`p."Amount" >= ${amountLiteral(filters.minAmount, 'minAmount')}`);
+  }
+  if (filters.maxAmount !== undefined) {
+    where.push(`p."Amount" <= ${amountLiteral(filters.maxAmount, 'maxAmount')}`);
+  }
+  if (filters.excludeConfidentialPayees) {
+    if (!dimensions.includes('payee')) {
+      joins.push(DIMENSION_DEFINITIONS.payee.join!);
+    }
+    where.push(`pc."Payee_Name" <> 'Confidential'`);
+  }
+
+  return { joins, where };
+}
+
+/**
+ * Compile a query spec into PostgreSQL.
+ * Agency groups are expanded first. Entity IDs in resolvedEntities take precedence
+ * over IDs in the spec's filters,
+ * since they come from the lookup tools rather than the model.
+ */
+export function compileQuerySpec(spec: QuerySpec, entities: ResolvedEntities = {}, options: CompileOptions = {}): CompiledQuery {
+  const resolvedEntities = expandResolvedEntities(entities);
+  const dimensions = [...new Set(spec.dimensions)];
+  const measures = [...new Set(spec.measures)];
+
+  if (measures.length === 0) {
+    throw new QuerySpecError('At least one measure is required');
+  }
+
+  const selectColumns: string[] = [];
+  const groupBy: string[] = [];
+  const joins: string[] = [];
+  const outputColumns: string[] = [];
+
+  dimensions.forEach(dimension => {
+    const definition = dimensionDefinition(dimension, options);
+    if (definition.join) {
+      joins.push(definition.join);
+    }
+    definition.columns.forEach(column => {
+      selectColumns.push(`${column.expr} AS ${column.alias}`);
+      groupBy.push(column.expr);
+      outputColumns.push(column.alias);
+    });
+  });
+
+  measures.forEach(measure => {
+    const definition = MEASURE_DEFINITIONS[measure];
+    selectColumns.push(`${definition.expr} AS ${definition.alias}`);
+    outputColumns.push(definition.alias);
+  });
+
+  const filterClauses = compilePaymentFilters(spec.filters ?? {}, resolvedEntities, dimensions, options);
+  joins.push(...filterClauses.joins);
+  const { where } = filterClauses;
+
+  // Sorting - by output column names, dimension names or measure names
+  const orderBy: string[] = [];
+  (spec.sort ?? []).forEach(({ by, direction }) => {
+    const column = (QUERY_DIMENSIONS as readonly string[]).includes(by)
+      ? DIMENSION_DEFINITIONS[by as QueryDimension].sortColumn
+      : (QUERY_MEASURES as readonly string[]).includes(by)
+        ? MEASURE_DEFINITIONS[by as QueryMeasure].alias
+        : by;
+    if (!outputColumns.includes(column)) {
+      throw new QuerySpecError(`Cannot sort by "${by}" - it is not one of the selected dimensions or measures`);
+    }
+    orderBy.push(`${column} ${direction.toUpperCase()}`);
+  });
+
+  if (orderBy.length === 0) {
+    const timeDimension = dimensions.find(dimension => DIMENSION_DEFINITIONS[dimension].isTime);
+    if (timeDimension) {
+      orderBy.push(`${DIMENSION_DEFINITIONS[timeDimension].sortColumn} ASC`);
+    } else if (dimensions.length > 0) {
+      orderBy.push(`${MEASURE_DEFINITIONS[measures[0]].alias} DESC`);
+    }
+  }
+
+  if (spec.limit !== undefined && (!Number.isInteger(spec.limit) || spec.limit < 1)) {
+    throw new QuerySpecError(`limit must be a positive whole number, got ${spec.limit}`);
+  }
+
+  const lines = [
+    'SELECT',
+    selectColumns.map(column => `  ${column}`).join(',\n'),
+    'FROM "payments" p',
+    ...joins,
+    where.length > 0 ? `WHERE ${where.join('\n  AND ')}` : '',
+    groupBy.length > 0 && measures.length > 0 ? `GROUP BY ${groupBy.join(', ')}` : '',
+    orderBy.length > 0 ? `ORDER BY ${orderBy.join(', ')}` : '',
+    spec.limit !== undefined ? `LIMIT ${spec.limit}` : ''
+  ].filter(Boolean);
+
+  return { sqlQuery: lines.join('\n'), columns: outputColumns };
+}
@@ -0,0 +1,210 @@
+/**
+ * Reference Data Service
+ *
+ * Code tables (agencies, categories, application funds, comptroller objects, funds,
+ * appropriations) are loaded once from the data source, with the committed snapshots in
+ * reference-snapshots/ as a fallback when the database can't be reached. The
+ * snapshot is also the baseline for drift reports between the repo and the database.
+ * Regenerate the snapshots with `npm run snapshot:reference-tables`.
+ *
+ * A snapshot committed as [] hasn't been taken yet. It is no fallback - a table that
+ * can't be loaded without one is reported as unavailable, not as empty - and no baseline
+ * for the drift report.
+ */
+
+import { getDataSource, type DataSource, type ReferenceTableName } from './data-source';
+import agencySnapshot from './reference-snapshots/agencyCodes.json';
+import categorySnapshot from './reference-snapshots/categoryCodes.json';
+import applicationFundSnapshot from './reference-snapshots/applicationFundCodes.json';
+import comptrollerSnapshot from './reference-snapshots/comptrollerCodes.json';
+import fundSnapshot from './reference-snapshots/fundCodes.json';
+import appropriationSnapshot from './reference-snapshots/appropriationNameCodes.json';
+
+export interface ReferenceEntry {
+  code: number;
+  name: string;
+}
+
+// 'unavailable': the database read failed and no snapshot has been committed
+export type ReferenceDataOrigin = 'database' | 'snapshot' | 'unavailable';
+
+export interface ReferenceTable {
+  table: ReferenceTableName;
+  entries: ReferenceEntry[];
+  origin: ReferenceDataOrigin;
+  // Why the snapshot was used, or why the table is unavailable
+  loadError?: string;
+}
+
+export interface ReferenceTableDiff {
+  table: ReferenceTableName;
+  origin: ReferenceDataOrigin;
+  // False when no snapshot has been committed; nothing is compared then
+  hasSnapshot: boolean;
+  // In the database but not in the snapshot
+  added: ReferenceEntry[];
+  // In the snapshot but no longer in the database
+  removed: ReferenceEntry[];
+  renamed: Array<{ code: number; snapshotName: string; databaseName: string }>;
+}
+
+// Code and name columns of each table (see SCHEMA_TABLES)
+export const REFERENCE_TABLE_COLUMNS: Record<ReferenceTableName, { code: string; name: string }> = {
+  agencyCodes: { code: 'Agency_CD', name: 'Agency_Name' },
+  categoryCodes: { code: 'CatCode', name: 'Category' },
+  applicationFundCodes: { code: 'Appd_Fund_Num', name: 'Appd_Fund_Num_Name' },
+  comptrollerCodes: { code: 'Comptroller_Object_Num', name: 'Comptroller_Object_Name' },
+  fundCodes: { code: 'Fund_Num', name: 'Fund_Description' },
+  appropriationNameCodes: { code: 'Appropriation_Number', name: 'Appropriation_Name' }
+};
+
+export const REFERENCE_SNAPSHOTS: Record<ReferenceTableName, ReferenceEntry[]> = {
+  agencyCodes: agencySnapshot,
+  categoryCodes: categorySnapshot,
+  applicationFundCodes: applicationFundSnapshot,
+  comptrollerCodes: comptrollerSnapshot,
+  fundCodes: fundSnapshot,
+  appropriationNameCodes: appropriationSnapshot
+};
+
+const REFERENCE_TABLES = Object.keys(REFERENCE_TABLE_COLUMNS) as ReferenceTableName[];
+
+export function hasReferenceSnapshot(table: ReferenceTableName): boolean {
+  return REFERENCE_SNAPSHOTS[table].length > 0;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export class ReferenceData {
+  private readonly byCode = new Map<ReferenceTableName, Map<number, ReferenceEntry>>();
+  private readonly byName = new Map<ReferenceTableName, Map<string, ReferenceEntry>>();
+
+  constructor(private readonly tables: Record<ReferenceTableName, ReferenceTable>) {
+    for (const table of REFERENCE_TABLES) {
+      const entries = tables[table].entries;
+      this.byCode.set(table, new Map(entries.map(entry => [entry.code, entry])));
+      this.byName.set(table, new Map(entries.map(entry => [normalizeName(entry.name), entry])));
+    }
+  }
+
+  /** Every entry in a table, sorted by name */
+  entries(table: ReferenceTableName): ReferenceEntry[] {
+    return this.tables[table].entries;
+  }
+
+  origin(table: ReferenceTableName): ReferenceDataOrigin {
+    return this.tables[table].origin;
+  }
+
+  /** False when the table couldn't be loaded at all, so its empty entry list means nothing */
+  isAvailable(table: ReferenceTableName): boolean {
+    return this.origin(table) !== 'unavailable';
+  }
+
+  findByCode(table: ReferenceTableName, code: number): ReferenceEntry | undefined {
+    return this.byCode.get(table)?.get(code);
+  }
+
+  /** Exact name lookup, ignoring case and extra whitespace */
+  findByName(table: ReferenceTableName, name: string): ReferenceEntry | undefined {
+    return this.byName.get(table)?.get(normalizeName(name));
+  }
+
+  /** Compare loaded tables against the committed snapshots */
+  diff(): ReferenceTableDiff[] {
+    return REFERENCE_TABLES.map(table => {
+      if (!hasReferenceSnapshot(table)) {
+        return { table, origin: this.origin(table), hasSnapshot: false, added: [], removed: [], renamed: [] };
+      }
+      const snapshot = new Map(REFERENCE_SNAPSHOTS[table].map(entry => [entry.code, entry]));
+      const loaded = this.byCode.get(table)!;
+
+      return {
+        table,
+        origin: this.origin(table),
+        hasSnapshot: true,
+        added: this.entries(table).filter(entry => !snapshot.has(entry.code)),
+        removed: REFERENCE_SNAPSHOTS[table].filter(entry => !loaded.has(entry.code)),
+        renamed: this.entries(table)
+          .filter(entry => snapshot.has(entry.code) && snapshot.get(entry.code)!.name !== entry.name)
+          .map(entry => ({ code: entry.code, snapshotName: snapshot.get(entry.code)!.name, databaseName: entry.name }))
+      };
+    });
+  }
+
+  /** Load status of every table, for the reference-data route */
+  summary(): Array<Omit<ReferenceTable, 'entries'> & { rowCount: number }> {
+    return REFERENCE_TABLES.map(table => ({
+      table,
+      origin: this.tables[table].origin,
+      loadError: this.tables[table].loadError,
+      rowCount: this.tables[table].entries.length
+    }));
+  }
+}
+
+function sortByName(entries: ReferenceEntry[]): ReferenceEntry[] {
+  return [...entries].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function loadReferenceTable(dataSource: DataSource, table: ReferenceTableName): Promise<ReferenceTable> {
+  const columns = REFERENCE_TABLE_COLUMNS[table];
+
+  try {
+    const { data, error } = await dataSource.fetchReferenceTable(table);
+
+    if (error || !data || data.length === 0) {
+      throw new Error(error?.message ?? 'table is empty');
+    }
+
+    const entries = data
+      .map(row => ({ code: Number(row[columns.code]), name: String(row[columns.name] ?? '').trim() }))
+      .filter(entry => Number.isFinite(entry.code) && entry.name);
+
+    return { table, entries: sortByName(entries), origin: 'database' };
+  } catch (e) {
+    if (!hasReferenceSnapshot(table)) {
+      console.error(`Reference data: "${table}" could not be loaded and has no snapshot - run npm run snapshot:reference-tables:`, (e as Error).message);
+      return { table, entries: [], origin: 'unavailable', loadError: (e as Error).message };
+    }
+    console.warn(`Reference data: using snapshot for "${table}":`, (e as Error).message);
+    return {
+      table,
+      entries: sortByName(REFERENCE_SNAPSHOTS[table]),
+      origin: 'snapshot',
+      loadError: (e as Error).message
+    };
+  }
+}
+
+let referenceData: Promise<ReferenceData> | null = null;
+
+/**
+ * Get the reference data, loading every table on first use
+ */
+export function getReferenceData(): Promise<ReferenceData> {
+  if (!referenceData) {
+    // One data source for all tables, so concurrent loads don't each open their own
+    referenceData = getDataSource()
+      .then(dataSource => Promise.all(REFERENCE_TABLES.map(table => loadReferenceTable(dataSource, table))))
+      .then(tables =>
+        new ReferenceData(Object.fromEntries(tables.map(table => [table.table, table])) as Record<ReferenceTableName, ReferenceTable>)
+      )
+      .catch(error => {
+        // Let the next call retry instead of caching the failure
+        referenceData = null;
+        throw error;
+      });
+  }
+  return referenceData;
+}
+
+/**
+ * Drop the loaded tables so the next getReferenceData() call reloads them
+ */
+export function reloadReferenceData(): Promise<ReferenceData> {
+  referenceData = null;
+  return getReferenceData();
+}
@@ -0,0 +1,33 @@
+/**
+ * Date formatting for query result rows
+ *
+ * Both data sources return date columns as Date objects or ISO strings; results, pages
+ * and CSV exports all show them as YYYY-MM-DD.
+ */
+
+import type { QueryRow } from './data-source';
+
+// Columns holding a date in analytics query results
+const DATE_COLUMNS = ['date', 'month'];
+
+/**
+ * A date value as YYYY-MM-DD
+ */
+export function formatDate(value: unknown): string {
+  return new Date(value as string | number | Date).toISOString().slice(0, 10);
+}
+
+/**
+ * Format date columns as YYYY-MM-DD (amounts are already in dollars)
+ */
+export function formatRowDates(row: QueryRow): QueryRow {
+  const processedRow = { ...row };
+
+  for (const column of DATE_COLUMNS) {
+    if (processedRow[column]) {
+      processedRow[column] = formatDate(processedRow[column]);
+    }
+  }
+
+  return processedRow;
+}
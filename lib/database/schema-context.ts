@@ -7,6 +7,8 @@
  * Updated: Schema optimized with standardized integer codes (no type casting needed)
  */
 
+import { PAYEE_TYPES } from './payee-types';
+
 const databaseSchemaContext = `
 You are a PostgreSQL expert for the Texas DOGE financial database (2022 data).
 
@@ -16,6 +18,8 @@ payments (750K records, 2022-01-05 to 2022-12-04):
   - "CatCode" (bigint) → categoryCodes."CatCode" (integer) ✓ CLEAN JOIN
   - "Agency_CD" (bigint) → agencyCodes."Agency_CD" (bigint) ✓ CLEAN JOIN
   - "Appd_Fund_Num" (bigint) → applicationFundCodes."Appd_Fund_Num" (bigint) ✓ CLEAN JOIN
+  - "Fund_Num" (bigint) → fundCodes."Fund_Num" (bigint) ✓ CLEAN JOIN
+  - "Appropriation_Number" (bigint) → appropriationNameCodes."Appropriation_Number" (bigint) ✓ CLEAN JOIN
   - "Amount" (bigint) [stored in DOLLARS - no conversion needed]
   - "date" (date) [2022-01-05 to 2022-12-04]
   - "Payee_id" (bigint) → payeeCodes."Payee_id" (bigint) ✓ CLEAN JOIN
@@ -25,8 +29,20 @@ LOOKUP TABLES (all require quoted identifiers, all codes are integers):
 - "agencyCodes": "Agency_CD" (bigint), "Agency_Name" (193 agencies)
 - "categoryCodes": "CatCode" (integer), "Category" (21 categories)  
 - "applicationFundCodes": "Appd_Fund_Num" (bigint), "Appd_Fund_Num_Name" (496 funds)
+- "fundCodes": "Fund_Num" (bigint), "Fund_Description" (2,533 funds - the fund the money was paid from, finer than application funds)
+- "appropriationNameCodes": "Appropriation_Number" (bigint), "Appropriation_Name" (5,156 appropriation line items; 0 = unappropriated)
 - "payeeCodes": "Payee_id" (bigint), "Payee_Name" (2.2M payees)
 - "comptrollerCodes": "Comptroller_Object_Num" (bigint), "Comptroller_Object_Name" (378 objects)
+- "payeeVendorClusters": "Payee_id" (bigint) → payeeCodes."Payee_id", "Vendor_id" (bigint), "Vendor_Name", "Vendor_Key"
+  One row per payee; payees that are spellings of the same company share a "Vendor_id".
+  Aggregate by vendor: JOIN "payeeVendorClusters" vc ON p."Payee_id" = vc."Payee_id" GROUP BY vc."Vendor_id", vc."Vendor_Name"
+- "payeeTypes": "Payee_id" (bigint) → payeeCodes."Payee_id", "Payee_Type" (text, one row per payee)
+  "Payee_Type" is one of: ${PAYEE_TYPES.map(type => `'${type}'`).join(', ')}
+  Tagged from name patterns: 'individual' = people's names and "Confidential" benefit recipients, 'school_district' = ISDs and charters,
+  'higher_education' = universities and colleges, 'special_district' = hospital/water/utility/appraisal districts,
+  'government' = state, federal and regional bodies, 'other' = no rule matched.
+  Payees loaded since the last build have no row - LEFT JOIN and treat them as 'other' so totals keep every payment:
+  LEFT JOIN "payeeTypes" pt ON p."Payee_id" = pt."Payee_id" WHERE COALESCE(pt."Payee_Type", 'other') IN ('school_district', 'company')
 
 POSTGRESQL REQUIREMENTS (SIMPLIFIED):
 - ALL identifiers MUST be quoted: "tableName", "columnName"
@@ -53,7 +69,10 @@ VALIDATED QUERY PATTERNS (All clean integer joins):
 - Agency Analysis: JOIN "agencyCodes" a ON p."Agency_CD" = a."Agency_CD"
 - Category Analysis: JOIN "categoryCodes" c ON p."CatCode" = c."CatCode"
 - Application Fund Analysis: JOIN "applicationFundCodes" af ON p."Appd_Fund_Num" = af."Appd_Fund_Num"
+- Fund Analysis: JOIN "fundCodes" f ON p."Fund_Num" = f."Fund_Num"
+- Appropriation Analysis: JOIN "appropriationNameCodes" ap ON p."Appropriation_Number" = ap."Appropriation_Number"
 - Payee Analysis: JOIN "payeeCodes" pc ON p."Payee_id" = pc."Payee_id"
+- Payee Type Analysis: LEFT JOIN "payeeTypes" pt ON p."Payee_id" = pt."Payee_id" with COALESCE(pt."Payee_Type", 'other')
 - Comptroller Analysis: JOIN "comptrollerCodes" comp ON p."Comptroller_Object_Num" = comp."Comptroller_Object_Num"
 - Temporal Analysis: DATE_TRUNC('month', p."date") with 2022 date filters
 - Top N Analysis: ORDER BY total_amount DESC LIMIT N
@@ -61,6 +80,24 @@ VALIDATED QUERY PATTERNS (All clean integer joins):
 
 export const DATABASE_SCHEMA_CONTEXT = databaseSchemaContext;
 
+/**
+ * Tables and columns declared in DATABASE_SCHEMA_CONTEXT.
+ * Used by the SQL validator to reject queries that reference anything else -
+ * keep this in sync with the context above.
+ */
+export const SCHEMA_TABLES: Record<string, readonly string[]> = {
+  payments: ['key', 'CatCode', 'Agency_CD', 'Appd_Fund_Num', 'Fund_Num', 'Appropriation_Number', 'Amount', 'date', 'Payee_id', 'Comptroller_Object_Num'],
+  agencyCodes: ['Agency_CD', 'Agency_Name'],
+  categoryCodes: ['CatCode', 'Category'],
+  applicationFundCodes: ['Appd_Fund_Num', 'Appd_Fund_Num_Name'],
+  fundCodes: ['Fund_Num', 'Fund_Description'],
+  appropriationNameCodes: ['Appropriation_Number', 'Appropriation_Name'],
+  payeeCodes: ['Payee_id', 'Payee_Name'],
+  comptrollerCodes: ['Comptroller_Object_Num', 'Comptroller_Object_Name'],
+  payeeVendorClusters: ['Payee_id', 'Vendor_id', 'Vendor_Name', 'Vendor_Key'],
+  payeeTypes: ['Payee_id', 'Payee_Type']
+};
+
 /**
  * Business Context for Understanding Texas Government Spending
  */
@@ -268,6 +305,7 @@ export const ERROR_PREVENTION = {
 
 const schemaExports = {
   DATABASE_SCHEMA_CONTEXT,
+  SCHEMA_TABLES,
   BUSINESS_CONTEXT,
   SAMPLE_QUERIES,
   DATA_VALIDATION_RULES,
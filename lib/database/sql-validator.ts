@@ -0,0 +1,349 @@
+/**
+ * SQL Validator for AI-generated analytics queries
+ *
+ * Parses generated SQL into an AST and checks it against the declared schema
+ * before anything is sent to the database. Rejections are structured so the
+ * model can read them and correct its query.
+ */
+
+import { Parser, type AST } from 'node-sql-parser';
+import { SCHEMA_TABLES } from './schema-context';
+
+export type SqlRejectionCode =
+  | 'EMPTY_QUERY'
+  | 'PARSE_ERROR'
+  | 'MULTIPLE_STATEMENTS'
+  | 'NOT_SELECT'
+  | 'DATA_MODIFYING_CTE'
+  | 'SELECT_INTO'
+  | 'FUNCTION_NOT_ALLOWED'
+  | 'UNKNOWN_TABLE'
+  | 'UNKNOWN_COLUMN'
+  | 'UNQUOTED_IDENTIFIER';
+
+export interface SqlRejection {
+  code: SqlRejectionCode;
+  message: string;
+  // Offending identifier or statement type, when there is one
+  target?: string;
+  // How the model should fix the query
+  suggestion?: string;
+}
+
+export interface SqlValidationResult {
+  isValid: boolean;
+  rejections: SqlRejection[];
+  tables: string[];
+}
+
+// Functions (scalar, aggregate and window) generated queries may call
+export const ALLOWED_SQL_FUNCTIONS = new Set([
+  // Aggregates
+  'SUM', 'COUNT', 'AVG', 'MIN', 'MAX', 'STDDEV', 'STDDEV_POP', 'STDDEV_SAMP',
+  'VARIANCE', 'VAR_POP', 'VAR_SAMP', 'PERCENTILE_CONT', 'PERCENTILE_DISC', 'MODE',
+  'STRING_AGG', 'BOOL_AND', 'BOOL_OR',
+  // Window functions
+  'ROW_NUMBER', 'RANK', 'DENSE_RANK', 'NTILE', 'PERCENT_RANK', 'CUME_DIST',
+  'LAG', 'LEAD', 'FIRST_VALUE', 'LAST_VALUE',
+  // Dates
+  'DATE_TRUNC', 'DATE_PART', 'TO_CHAR', 'MAKE_DATE',
+  // Math
+  'ROUND', 'ABS', 'FLOOR', 'CEIL', 'CEILING', 'SIGN', 'POWER', 'SQRT', 'LN', 'LOG', 'MOD',
+  // Strings
+  'LOWER', 'UPPER', 'TRIM', 'LEFT', 'RIGHT', 'SUBSTRING', 'LENGTH', 'CONCAT',
+  'REPLACE', 'SPLIT_PART', 'STRPOS', 'LPAD', 'RPAD',
+  // Conditionals
+  'COALESCE', 'NULLIF', 'GREATEST', 'LEAST'
+]);
+
+const PARSER_OPTIONS = { database: 'Postgresql' };
+
+const sqlParser = new Parser();
+
+type AstNode = Record<string, unknown>;
+
+/**
+ * Parse SQL into the node-sql-parser AST (always returned as a statement list)
+ */
+export function parseSql(sqlQuery: string): AstNode[] {
+  const ast = sqlParser.astify(sqlQuery, PARSER_OPTIONS);
+  return (Array.isArray(ast) ? ast : [ast]) as unknown as AstNode[];
+}
+
+/**
+ * Turn a single statement AST back into PostgreSQL text
+ */
+export function sqlifyAst(statement: AstNode): string {
+  return sqlParser.sqlify(statement as unknown as AST, PARSER_OPTIONS);
+}
+
+/**
+ * Visit every object node in an AST, depth first
+ */
+export function walkAst(node: unknown, visit: (node: AstNode) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => walkAst(child, visit));
+    return;
+  }
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+  visit(node as AstNode);
+  Object.values(node).forEach(child => walkAst(child, visit));
+}
+
+// Column identifiers come back either as plain strings or { expr: { type, value } }
+function readColumnIdentifier(column: unknown): { name: string; quoted: boolean } | null {
+  if (typeof column === 'string') {
+    return { name: column, quoted: false };
+  }
+  const expr = (column as { expr?: { type?: string; value?: unknown } } | null)?.expr;
+  if (expr && typeof expr.value === 'string') {
+    return { name: expr.value, quoted: expr.type === 'double_quote_string' };
+  }
+  return null;
+}
+
+function readFunctionName(node: AstNode): string | null {
+  if (node.type === 'aggr_func' && typeof node.name === 'string') {
+    return node.name.toUpperCase();
+  }
+  if (node.type === 'function') {
+    const parts = (node.name as { name?: Array<{ value: string }> } | undefined)?.name;
+    if (parts && parts.length > 0) {
+      return parts.map(part => part.value).join('.').toUpperCase();
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate an analytics query before execution.
+ * Only a single SELECT over the declared schema, calling allowlisted functions, is accepted.
+ */
+export function validateAnalyticsSql(sqlQuery: string): SqlValidationResult {
+  const rejections: SqlRejection[] = [];
+
+  if (!sqlQuery || !sqlQuery.trim()) {
+    return {
+      isValid: false,
+      rejections: [{ code: 'EMPTY_QUERY', message: 'No SQL query was provided' }],
+      tables: []
+    };
+  }
+
+  let statements: AstNode[];
+  try {
+    statements = parseSql(sqlQuery);
+  } catch (e) {
+    return {
+      isValid: false,
+      rejections: [{
+        code: 'PARSE_ERROR',
+        message: `Query could not be parsed: ${(e as Error).message}`,
+        suggestion: 'Write a single PostgreSQL SELECT statement. Data-modifying statements, including inside WITH clauses, are not allowed.'
+      }],
+      tables: []
+    };
+  }
+
+  if (statements.length !== 1) {
+    rejections.push({
+      code: 'MULTIPLE_STATEMENTS',
+      message: `Expected exactly one statement but found ${statements.length}`,
+      suggestion: 'Combine the analysis into a single SELECT statement, using WITH clauses or subqueries if needed.'
+    });
+  }
+
+  statements.forEach(statement => {
+    if (statement.type !== 'select') {
+      rejections.push({
+        code: 'NOT_SELECT',
+        message: `Only SELECT queries are allowed, found ${String(statement.type).toUpperCase()}`,
+        target: String(statement.type)
+      });
+    }
+  });
+
+  // Collect common table expressions, aliases and every referenced table
+  const cteNames = new Set<string>();
+  const derivedAliases = new Set<string>();
+  const aliasToTable = new Map<string, string>();
+  const referencedTables = new Set<string>();
+  const selectAliases = new Set<string>();
+
+  walkAst(statements, node => {
+    if (Array.isArray(node.with)) {
+      (node.with as AstNode[]).forEach(cte => {
+        const name = (cte.name as { value?: string } | undefined)?.value;
+        if (name) {
+          cteNames.add(name);
+        }
+        const cteType = (cte.stmt as AstNode | undefined)?.type
+          ?? ((cte.stmt as { ast?: AstNode } | undefined)?.ast?.type);
+        if (cteType && cteType !== 'select') {
+          rejections.push({
+            code: 'DATA_MODIFYING_CTE',
+            message: `WITH clause "${name}" contains a ${String(cteType).toUpperCase()} statement`,
+            target: name
+          });
+        }
+      });
+    }
+
+    // SELECT ... INTO creates a table
+    const into = node.type === 'select' ? node.into as { type?: string; expr?: unknown } | null | undefined : null;
+    if (into && (into.type === 'into' || into.expr)) {
+      const target = typeof into.expr === 'string' ? into.expr : undefined;
+      rejections.push({
+        code: 'SELECT_INTO',
+        message: `SELECT INTO${target ? ` "${target}"` : ''} writes a table`,
+        target,
+        suggestion: 'Remove the INTO clause and return the rows instead'
+      });
+    }
+
+    if (Array.isArray(node.from)) {
+      (node.from as AstNode[]).forEach(source => {
+        if (typeof source.table === 'string') {
+          referencedTables.add(source.table);
+          if (typeof source.as === 'string') {
+            aliasToTable.set(source.as, source.table);
+          }
+        } else if (typeof source.as === 'string') {
+          derivedAliases.add(source.as);
+        }
+      });
+    }
+
+    if (Array.isArray(node.columns) && node.type === 'select') {
+      (node.columns as AstNode[]).forEach(column => {
+        if (typeof column.as === 'string') {
+          selectAliases.add(column.as);
+        }
+      });
+    }
+  });
+
+  const schemaTables = Object.keys(SCHEMA_TABLES);
+  const realTables = [...referencedTables].filter(table => !cteNames.has(table));
+
+  realTables.forEach(table => {
+    if (!SCHEMA_TABLES[table]) {
+      rejections.push({
+        code: 'UNKNOWN_TABLE',
+        message: `Table "${table}" is not part of the Texas DOGE schema`,
+        target: table,
+        suggestion: `Use one of: ${schemaTables.map(name => `"${name}"`).join(', ')}`
+      });
+    }
+  });
+
+  // Mixed-case table names lose their quotes in the AST, so check the raw text
+  schemaTables
+    .filter(table => table !== table.toLowerCase() && realTables.includes(table))
+    .forEach(table => {
+      if (new RegExp(`(^|[^"\\w])${table}(?![\\w"])`).test(sqlQuery)) {
+        rejections.push({
+          code: 'UNQUOTED_IDENTIFIER',
+          message: `Table ${table} must be quoted`,
+          target: table,
+          suggestion: `Write "${table}" with double quotes`
+        });
+      }
+    });
+
+  const knownTables = realTables.filter(table => SCHEMA_TABLES[table]);
+  const reportedColumns = new Set<string>();
+
+  walkAst(statements, node => {
+    // Functions
+    if (node.type === 'function' || node.type === 'aggr_func') {
+      const functionName = readFunctionName(node);
+      if (functionName && !ALLOWED_SQL_FUNCTIONS.has(functionName)) {
+        rejections.push({
+          code: 'FUNCTION_NOT_ALLOWED',
+          message: `Function ${functionName} is not allowed`,
+          target: functionName,
+          suggestion: 'Use standard aggregates (SUM, COUNT, AVG), DATE_TRUNC, ROUND and similar built-in functions'
+        });
+      }
+      return;
+    }
+
+    // Columns
+    if (node.type !== 'column_ref') {
+      return;
+    }
+    const identifier = readColumnIdentifier(node.column);
+    if (!identifier || identifier.name === '*') {
+      return;
+    }
+    // Unquoted identifiers are folded to lower case by PostgreSQL
+    const columnName = identifier.quoted ? identifier.name : identifier.name.toLowerCase();
+    const qualifier = typeof node.table === 'string' ? node.table : null;
+
+    let candidateTables: string[];
+    if (qualifier) {
+      if (cteNames.has(qualifier) || derivedAliases.has(qualifier)) {
+        return; // Derived columns are checked where they are defined
+      }
+      const table = aliasToTable.get(qualifier) ?? qualifier;
+      if (!SCHEMA_TABLES[table]) {
+        return; // Reported as an unknown table
+      }
+      candidateTables = [table];
+    } else {
+      if (selectAliases.has(identifier.name) || selectAliases.has(columnName)) {
+        return;
+      }
+      // Unqualified columns may come from CTEs or subqueries we don't resolve
+      if (cteNames.size > 0 || derivedAliases.size > 0) {
+        return;
+      }
+      candidateTables = knownTables;
+    }
+
+    const exists = candidateTables.some(table => SCHEMA_TABLES[table].includes(columnName));
+    const reportKey = `${qualifier ?? ''}.${columnName}`;
+    if (exists || reportedColumns.has(reportKey)) {
+      return;
+    }
+    reportedColumns.add(reportKey);
+
+    const caseInsensitiveMatch = candidateTables
+      .flatMap(table => SCHEMA_TABLES[table])
+      .find(column => column.toLowerCase() === identifier.name.toLowerCase());
+
+    if (caseInsensitiveMatch && !identifier.quoted) {
+      rejections.push({
+        code: 'UNQUOTED_IDENTIFIER',
+        message: `Column ${identifier.name} must be quoted`,
+        target: identifier.name,
+        suggestion: `Write "${caseInsensitiveMatch}" with double quotes`
+      });
+    } else {
+      rejections.push({
+        code: 'UNKNOWN_COLUMN',
+        message: `Column "${identifier.name}" does not exist on ${candidateTables.map(table => `"${table}"`).join(' or ') || 'the referenced tables'}`,
+        target: identifier.name,
+        suggestion: candidateTables.length > 0
+          ? `Available columns: ${candidateTables.flatMap(table => SCHEMA_TABLES[table].map(column => `"${table}"."${column}"`)).join(', ')}`
+          : undefined
+      });
+    }
+  });
+
+  return {
+    isValid: rejections.length === 0,
+    rejections,
+    tables: knownTables
+  };
+}
+
+/**
+ * One-line summary of rejections for logs and error messages
+ */
+export function formatSqlRejections(rejections: SqlRejection[]): string {
+  return rejections.map(rejection => rejection.message).join('; ');
+}
@@ -0,0 +1,147 @@
+import { supabase } from '../supabase';
+import { SCHEMA_TABLES } from './schema-context';
+import type { DataSource, DataSourceError, DataSourceResult, PayeeMatch, QueryPlanEstimate, QueryRow, ReferenceTableName } from './data-source';
+
+// ========================================
+// REQUIRED RPC FUNCTIONS
+// ========================================
+//
+// explainQuery needs this function alongside execute_analytics_query:
+//
+// CREATE OR REPLACE FUNCTION explain_analytics_query(query_text TEXT)
+// RETURNS JSON AS $$
+// DECLARE
+//   plan JSON;
+// BEGIN
+//   IF query_text !~* '^\s*(select|with)\s' THEN
+//     RAISE EXCEPTION 'Only SELECT queries can be explained';
+//   END IF;
+//   EXECUTE 'EXPLAIN (FORMAT JSON) ' || query_text INTO plan;
+//   RETURN plan;
+// END;
+// $$ LANGUAGE plpgsql;
+//
+// ========================================
+
+// PostgREST returns at most this many rows per request
+const REFERENCE_PAGE_SIZE = 1000;
+
+interface PostgresPlanNode {
+  'Node Type': string;
+  'Total Cost': number;
+  'Plan Rows': number;
+  Plans?: PostgresPlanNode[];
+}
+
+function sumScannedRows(node: PostgresPlanNode): number {
+  const ownRows = node['Node Type'].includes('Scan') ? node['Plan Rows'] : 0;
+  return ownRows + (node.Plans ?? []).reduce((total, child) => total + sumScannedRows(child), 0);
+}
+
+/**
+ * Hosted Supabase database, accessed through the analytics RPC functions
+ */
+export class SupabaseDataSource implements DataSource {
+  readonly name = 'supabase' as const;
+
+  async executeReadQuery(sqlQuery: string): Promise<DataSourceResult<QueryRow>> {
+    const { data, error } = await supabase.rpc('execute_analytics_query', {
+      query_text: sqlQuery
+    });
+
+    return {
+      data: data ?? null,
+      error: error ? { message: error.message, code: error.code } : null
+    };
+  }
+
+  async explainQuery(sqlQuery: string): Promise<{ plan: QueryPlanEstimate | null; error: DataSourceError | null }> {
+    const { data, error } = await supabase.rpc('explain_analytics_query', {
+      query_text: sqlQuery
+    });
+
+    if (error) {
+      return { plan: null, error: { message: error.message, code: error.code } };
+    }
+
+    const root = (data as Array<{ Plan: PostgresPlanNode }> | null)?.[0]?.Plan;
+    if (!root) {
+      return { plan: null, error: { message: 'EXPLAIN returned no plan' } };
+    }
+
+    return {
+      plan: {
+        totalCost: root['Total Cost'],
+        estimatedRows: root['Plan Rows'],
+        scannedRows: sumScannedRows(root)
+      },
+      error: null
+    };
+  }
+
+  async searchPayees(searchTerm: string, limit: number): Promise<DataSourceResult<PayeeMatch>> {
+    const { data, error } = await supabase.rpc('search_payees_case_insensitive_limited', {
+      search_term: searchTerm,
+      result_limit: limit
+    });
+
+    if (error) {
+      console.error('Supabase RPC error:', error);
+
+      // If the specific RPC doesn't exist, fall back to a simpler query
+      if (error.code === '42883' || error.message?.includes('function') || error.message?.includes('does not exist')) {
+        console.log('Falling back to basic payee search...');
+        return this.searchPayeesBasic(searchTerm, limit);
+      }
+
+      return { data: null, error: { message: error.message, code: error.code } };
+    }
+
+    return { data: data ?? [], error: null };
+  }
+
+  // Paged by the code column (the table's first column) until a short page comes back
+  async fetchReferenceTable(table: ReferenceTableName): Promise<DataSourceResult<QueryRow>> {
+    const [codeColumn] = SCHEMA_TABLES[table];
+    const rows: QueryRow[] = [];
+
+    for (let from = 0; ; from += REFERENCE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .order(codeColumn)
+        .range(from, from + REFERENCE_PAGE_SIZE - 1);
+
+      if (error) {
+        return { data: null, error: { message: error.message, code: error.code } };
+      }
+
+      rows.push(...(data ?? []));
+      if (!data || data.length < REFERENCE_PAGE_SIZE) {
+        return { data: rows, error: null };
+      }
+    }
+  }
+
+  // Unindexed ILIKE search - table has 2.2M records, so keep the limit small
+  private async searchPayeesBasic(searchTerm: string, limit: number): Promise<DataSourceResult<PayeeMatch>> {
+    const { data, error } = await supabase
+      .from('payeeCodes')
+      .select('Payee_Name, Payee_id')
+      .ilike('Payee_Name', `%${searchTerm}%`)
+      .limit(limit);
+
+    if (error) {
+      console.error('Basic payee search error:', error);
+      return { data: null, error: { message: error.message, code: error.code } };
+    }
+
+    return {
+      data: (data ?? []).map((item: { Payee_Name: string; Payee_id: string }) => ({
+        payee_name: item.Payee_Name,
+        payee_id: String(item.Payee_id)
+      })),
+      error: null
+    };
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Payee name normalization and vendor clustering
+ *
+ * payeeCodes lists one vendor under many spellings ("DELL MARKETING LP", "DELL INC",
+ * "Dell Inc."). Names are normalized - case, punctuation, corporate suffixes, known
+ * aliases - and payees sharing a normalized key form one vendor entity, identified by
+ * its lowest Payee_id. The result is stored as "payeeVendorClusters" so generated
+ * queries can join it and aggregate by vendor instead of raw Payee_id.
+ *
+ * Individuals (including "Confidential") are never merged by name - two people called
+ * John Smith are not one vendor - and each stays a vendor of its own.
+ *
+ * Rebuild after each payeeCodes load with `npm run build:vendor-clusters`; it reads every
+ * payee, so it runs offline rather than in a route.
+ */
+
+import { getDataSource, type DataSource, type DataSourceError } from './data-source';
+import { forEachPayee, payeeTableExists, savePayeeTable } from './payee-tables';
+import { classifyPayee, PAYEE_TYPE_TABLE, type PayeeType } from './payee-types';
+
+// ========================================
+// REQUIRED TABLE (Supabase)
+// ========================================
+//
+// CREATE TABLE "payeeVendorClusters" (
+//   "Payee_id" BIGINT PRIMARY KEY,
+//   "Vendor_id" BIGINT NOT NULL,
+//   "Vendor_Name" TEXT NOT NULL,
+//   "Vendor_Key" TEXT NOT NULL
+// );
+// CREATE INDEX idx_payee_vendor_clusters_vendor ON "payeeVendorClusters" ("Vendor_id");
+//
+// ========================================
+
+export const VENDOR_CLUSTER_TABLE = 'payeeVendorClusters';
+
+// Payee types that are kept out of name clustering
+const UNCLUSTERED_PAYEE_TYPES = new Set<string>(['individual'] satisfies PayeeType[]);
+
+export interface VendorClusterRow {
+  Payee_id: number;
+  Vendor_id: number;
+  Vendor_Name: string;
+  Vendor_Key: string;
+}
+
+export interface VendorClusterBuild {
+  payeeCount: number;
+  vendorCount: number;
+  // Vendors that merged two or more payee IDs
+  mergedVendorCount: number;
+  // Individuals kept as vendors of their own
+  unclusteredPayeeCount: number;
+  rows: VendorClusterRow[];
+}
+
+export interface VendorCluster {
+  vendorId: number;
+  vendorName: string;
+  payeeIds: number[];
+}
+
+// ========================================
+// NORMALIZATION
+// ========================================
+
+// Trailing legal-form words that don't distinguish vendors
+const CORPORATE_SUFFIXES = new Set([
+  'INC', 'INCORPORATED', 'LLC', 'LLP', 'LP', 'LTD', 'LIMITED', 'CORP', 'CORPORATION',
+  'CO', 'COMPANY', 'PLLC', 'PC', 'PA', 'NA', 'PLC', 'GMBH', 'SA'
+]);
+
+// Normalized name -> vendor key, for subsidiaries and trade names that normalize differently
+export const VENDOR_ALIASES: Record<string, string> = {
+  'DELL MARKETING': 'DELL',
+  'DELL COMPUTER': 'DELL',
+  'DELL TECHNOLOGIES': 'DELL',
+  'INTERNATIONAL BUSINESS MACHINES': 'IBM',
+  'CDW GOVERNMENT': 'CDW',
+  'CDW G': 'CDW',
+  'SHI GOVERNMENT SOLUTIONS': 'SHI',
+  'SHI INTERNATIONAL': 'SHI',
+  'HEB GROCERY': 'HEB',
+  'AT AND T MOBILITY': 'AT AND T',
+  'AT AND T CORP': 'AT AND T',
+  'VERIZON WIRELESS': 'VERIZON',
+  'CELLCO PARTNERSHIP': 'VERIZON',
+  'UNITED PARCEL SERVICE': 'UPS',
+  'FEDERAL EXPRESS': 'FEDEX'
+};
+
+// "H E B" -> "HEB", "L L C" -> "LLC"
+function joinSingleLetters(tokens: string[]): string[] {
+  const joined: string[] = [];
+  let run = '';
+  tokens.forEach(token => {
+    if (token.length === 1) {
+      run += token;
+      return;
+    }
+    if (run) {
+      joined.push(run);
+      run = '';
+    }
+    joined.push(token);
+  });
+  if (run) {
+    joined.push(run);
+  }
+  return joined;
+}
+
+/**
+ * Normalize a payee name to its vendor key, e.g. "Dell Marketing, L.P." -> "DELL"
+ */
+export function normalizePayeeName(name: string): string {
+  const cleaned = name
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    // "L.L.C." -> "LLC", "INC." -> "INC"
+    .replace(/[.'’]/g, '')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim()
+    // Trade names: keep the legal entity before "DBA"
+    .replace(/ DBA .*$/, '');
+
+  const tokens = joinSingleLetters(cleaned.split(' ').filter(Boolean));
+  while (tokens.length > 1 && CORPORATE_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  if (tokens.length > 1 && tokens[0] === 'THE') {
+    tokens.shift();
+  }
+
+  const key = tokens.join(' ');
+  return VENDOR_ALIASES[key] ?? key;
+}
+
+// ========================================
+// CLUSTER BUILD
+// ========================================
+
+/**
+ * Cluster every payee by normalized name, except individuals.
+ * Uses the stored payee types when they have been built, the name rules otherwise.
+ */
+export async function buildVendorClusters(): Promise<VendorClusterBuild> {
+  const payeeIds: number[] = [];
+  const payeeKeys: string[] = [];
+  // Vendor key -> lowest Payee_id, display name and member count
+  const vendors = new Map<string, { vendorId: number; vendorName: string; memberCount: number }>();
+  let unclusteredPayeeCount = 0;
+  const withPayeeTypes = await payeeTableExists(PAYEE_TYPE_TABLE);
+
+  await forEachPayee(({ payeeId, payeeName, payeeType }) => {
+    const unclustered = UNCLUSTERED_PAYEE_TYPES.has(payeeType ?? classifyPayee(payeeName));
+    if (unclustered) {
+      unclusteredPayeeCount++;
+    }
+    const key = (!unclustered && normalizePayeeName(payeeName)) || `PAYEE ${payeeId}`;
+
+    payeeIds.push(payeeId);
+    payeeKeys.push(key);
+
+    const vendor = vendors.get(key);
+    if (!vendor) {
+      // Payees arrive in Payee_id order, so the first member has the lowest ID
+      vendors.set(key, { vendorId: payeeId, vendorName: payeeName, memberCount: 1 });
+    } else {
+      vendor.memberCount++;
+      // The shortest spelling is usually the plain company name
+      if (payeeName && payeeName.length < vendor.vendorName.length) {
+        vendor.vendorName = payeeName;
+      }
+    }
+  }, { withPayeeTypes });
+
+  const rows = payeeIds.map((payeeId, index) => {
+    const vendor = vendors.get(payeeKeys[index])!;
+    return { Payee_id: payeeId, Vendor_id: vendor.vendorId, Vendor_Name: vendor.vendorName, Vendor_Key: payeeKeys[index] };
+  });
+
+  return {
+    payeeCount: rows.length,
+    vendorCount: vendors.size,
+    mergedVendorCount: [...vendors.values()].filter(vendor => vendor.memberCount > 1).length,
+    unclusteredPayeeCount,
+    rows
+  };
+}
+
+export function saveVendorClusters(rows: VendorClusterRow[]): Promise<{ error: DataSourceError | null }> {
+  return savePayeeTable(VENDOR_CLUSTER_TABLE, ['Payee_id', 'Vendor_id', 'Vendor_Name', 'Vendor_Key'], rows);
+}
+
+// ========================================
+// LOOKUP
+// ========================================
+
+// Data sources where the cluster table was found; a missing table is checked again next time
+const sourcesWithClusters = new WeakSet<DataSource>();
+
+/**
+ * Whether payeeVendorClusters has been built. Vendor queries fall back to payees without it.
+ */
+export async function vendorClustersAvailable(): Promise<boolean> {
+  const dataSource = await getDataSource();
+  if (sourcesWithClusters.has(dataSource)) {
+    return true;
+  }
+  if (!(await payeeTableExists(VENDOR_CLUSTER_TABLE))) {
+    return false;
+  }
+  sourcesWithClusters.add(dataSource);
+  return true;
+}
+
+/**
+ * Vendor clusters containing the given payees, with every member payee ID.
+ * Empty when the cluster table hasn't been built yet.
+ */
+export async function findVendorClusters(payeeIds: number[]): Promise<VendorCluster[]> {
+  const ids = payeeIds.filter(id => Number.isSafeInteger(id));
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const dataSource = await getDataSource();
+  const { data, error } = await dataSource.executeReadQuery(
+    `SELECT m."Vendor_id", m."Vendor_Name", m."Payee_id"
+     FROM "${VENDOR_CLUSTER_TABLE}" m
+     WHERE m."Vendor_id" IN (SELECT v."Vendor_id" FROM "${VENDOR_CLUSTER_TABLE}" v WHERE v."Payee_id" IN (${ids.join(', ')}))
+     ORDER BY m."Vendor_id", m."Payee_id"`
+  );
+  if (error || !data) {
+    console.warn('Vendor clusters unavailable:', error?.message);
+    return [];
+  }
+
+  const clusters = new Map<number, VendorCluster>();
+  data.forEach(row => {
+    const vendorId = Number(row.Vendor_id);
+    const cluster = clusters.get(vendorId) ?? { vendorId, vendorName: String(row.Vendor_Name), payeeIds: [] };
+    cluster.payeeIds.push(Number(row.Payee_id));
+    clusters.set(vendorId, cluster);
+  });
+  return [...clusters.values()];
+}
@@ -0,0 +1,227 @@
+/**
+ * Vendor concentration for a slice of spending
+ *
+ * Measures how much of a slice - an agency, category or comptroller object, or any
+ * filter combination - goes to a few vendors:
+ *
+ * - vendor share: a vendor's dollars over the slice's dollars
+ * - top-N share: the combined share of the N largest vendors (CR4 for N = 4)
+ * - HHI: the sum of squared percentage shares, 0-10,000. Under the 2023 federal
+ *   merger guidelines above 1,800 is highly concentrated and 1,000-1,800 moderately.
+ *
+ * Vendors are vendor clusters (payee spellings merged) named by the cluster, falling back
+ * to the Payee_id and payee name for payees missing from payeeVendorClusters, or for every
+ * payee until the cluster table is built. Slices can be split by agency, category or
+ * comptroller object to rank where one vendor dominates. "Confidential" individual
+ * recipients are pooled under one payee, so they are left out unless asked for.
+ */
+
+import { runAnalysisQuery } from './analysis-query';
+import type { QueryRow } from './data-source';
+import {
+  compilePaymentFilters,
+  dimensionDefinition,
+  expandResolvedEntities,
+  loadCompileOptions,
+  QuerySpecError,
+  type CompileOptions,
+  type QuerySpec,
+  type ResolvedEntities
+} from './query-spec';
+
+export const CONCENTRATION_GROUPINGS = ['agency', 'category', 'comptroller'] as const;
+
+export type ConcentrationGrouping = typeof CONCENTRATION_GROUPINGS[number];
+
+export const CONCENTRATION_DEFAULTS = {
+  topN: 4,
+  limit: 15,
+  maxLimit: 100,
+  // Slices smaller than this are too small for concentration to matter
+  minSliceAmount: 100_000
+};
+
+export const HHI_THRESHOLDS = { moderate: 1000, high: 1800 };
+
+const GROUPING_COLUMNS: Record<ConcentrationGrouping, string> = {
+  agency: 'Agency_CD',
+  category: 'CatCode',
+  comptroller: 'Comptroller_Object_Num'
+};
+
+export interface ConcentrationOptions {
+  groupBy?: ConcentrationGrouping;
+  topN?: number;
+  limit?: number;
+  minSliceAmount?: number;
+  includeConfidential?: boolean;
+  filters?: QuerySpec['filters'];
+  resolvedEntities?: ResolvedEntities;
+}
+
+export interface SliceConcentration {
+  // Agency, category or object code when grouped, null for the whole slice
+  sliceCode: number | null;
+  totalAmount: number;
+  vendorCount: number;
+  hhi: number;
+  topNShare: number;
+  topVendorId: number;
+  topVendorName: string | null;
+  topVendorShare: number;
+}
+
+export interface VendorShare {
+  rank: number;
+  vendorId: number;
+  vendorName: string | null;
+  totalAmount: number;
+  paymentCount: number;
+  share: number;
+}
+
+export interface ConcentrationAnalysis {
+  sqlQuery: string;
+  slices: SliceConcentration[];
+  // Largest vendors of the whole slice, when it isn't grouped
+  vendors: VendorShare[];
+  // Set when the cost gate stopped the query
+  error?: string;
+}
+
+function boundedInteger(value: number | undefined, fallback: number, max: number, field: string): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!Number.isFinite(value) || value < 1) {
+    throw new QuerySpecError(`${field} must be a positive whole number, got ${value}`);
+  }
+  return Math.min(Math.floor(value), max);
+}
+
+/**
+ * Label an HHI on the merger guideline scale
+ */
+export function concentrationLevel(hhi: number): 'high' | 'moderate' | 'low' {
+  return hhi > HHI_THRESHOLDS.high ? 'high' : hhi >= HHI_THRESHOLDS.moderate ? 'moderate' : 'low';
+}
+
+// Per-vendor totals in each slice, ranked, as CTEs shared by both queries
+function vendorTotalsCtes(options: ConcentrationOptions, sliceColumn: string | null, compileOptions: CompileOptions): string {
+  const filters = options.includeConfidential ? options.filters ?? {} : { ...options.filters, excludeConfidentialPayees: true };
+  const vendor = dimensionDefinition('vendor', compileOptions);
+  const [nameColumn, idColumn] = vendor.columns;
+  const { joins, where } = compilePaymentFilters(filters, expandResolvedEntities(options.resolvedEntities), ['vendor'], compileOptions);
+  const slice = sliceColumn ? `p."${sliceColumn}" AS slice_code, ` : '';
+  const partition = sliceColumn ? 'PARTITION BY vt.slice_code ' : '';
+
+  return `WITH vendor_totals AS (
+  SELECT ${slice}${idColumn.expr} AS vendor_id,
+    ${nameColumn.expr} AS vendor_name,
+    SUM(p."Amount") AS vendor_amount,
+    COUNT(*) AS payment_count
+  FROM "payments" p
+${[vendor.join!, ...joins].flatMap(join => join.split('\n')).map(join => `  ${join}\n`).join('')}${where.length > 0 ? `  WHERE ${where.join('\n    AND ')}\n` : ''}  GROUP BY ${sliceColumn ? `p."${sliceColumn}", ` : ''}${idColumn.expr}, ${nameColumn.expr}
+  HAVING SUM(p."Amount") > 0
+),
+ranked AS (
+  SELECT vt.*,
+    SUM(vt.vendor_amount) OVER (${partition.trim()}) AS slice_amount,
+    COUNT(*) OVER (${partition.trim()}) AS vendor_count,
+    ROW_NUMBER() OVER (${partition}ORDER BY vt.vendor_amount DESC, vt.vendor_id) AS vendor_rank
+  FROM vendor_totals vt
+)`;
+}
+
+/**
+ * HHI, top-N share and top vendor for each slice, most concentrated first
+ */
+export function buildConcentrationQuery(options: ConcentrationOptions = {}, compileOptions: CompileOptions = {}): string {
+  const topN = boundedInteger(options.topN, CONCENTRATION_DEFAULTS.topN, 50, 'topN');
+  const limit = boundedInteger(options.limit, CONCENTRATION_DEFAULTS.limit, CONCENTRATION_DEFAULTS.maxLimit, 'limit');
+  const minSliceAmount = options.minSliceAmount ?? (options.groupBy ? CONCENTRATION_DEFAULTS.minSliceAmount : 0);
+  if (!Number.isFinite(minSliceAmount)) {
+    throw new QuerySpecError('minSliceAmount must be a number');
+  }
+  const sliceColumn = options.groupBy ? GROUPING_COLUMNS[options.groupBy] : null;
+
+  return `${vendorTotalsCtes(options, sliceColumn, compileOptions)},
+slices AS (
+  SELECT ${sliceColumn ? 'r.slice_code' : 'CAST(NULL AS BIGINT) AS slice_code'},
+    MAX(r.slice_amount) AS total_amount,
+    MAX(r.vendor_count) AS vendor_count,
+    SUM(POWER(100.0 * r.vendor_amount / r.slice_amount, 2)) AS hhi,
+    SUM(CASE WHEN r.vendor_rank <= ${topN} THEN r.vendor_amount ELSE 0 END) / MAX(r.slice_amount) AS top_n_share,
+    MAX(CASE WHEN r.vendor_rank = 1 THEN r.vendor_id END) AS top_vendor_id,
+    MAX(CASE WHEN r.vendor_rank = 1 THEN r.vendor_name END) AS top_vendor_name,
+    MAX(CASE WHEN r.vendor_rank = 1 THEN r.vendor_amount END) / MAX(r.slice_amount) AS top_vendor_share
+  FROM ranked r
+  ${sliceColumn ? 'GROUP BY r.slice_code\n  ' : ''}HAVING MAX(r.slice_amount) >= ${minSliceAmount}
+)
+SELECT s.*
+FROM slices s
+ORDER BY s.hhi DESC, s.total_amount DESC
+LIMIT ${limit}`;
+}
+
+/**
+ * The largest vendors of the whole (ungrouped) slice with their shares
+ */
+export function buildVendorShareQuery(options: ConcentrationOptions = {}, compileOptions: CompileOptions = {}): string {
+  const limit = boundedInteger(options.limit, CONCENTRATION_DEFAULTS.limit, CONCENTRATION_DEFAULTS.maxLimit, 'limit');
+
+  return `${vendorTotalsCtes(options, null, compileOptions)}
+SELECT r.vendor_rank, r.vendor_id, r.vendor_name, r.vendor_amount, r.payment_count,
+  r.vendor_amount / r.slice_amount AS vendor_share
+FROM ranked r
+WHERE r.vendor_rank <= ${limit}
+ORDER BY r.vendor_rank`;
+}
+
+function optionalText(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function toSlice(row: QueryRow): SliceConcentration {
+  return {
+    sliceCode: row.slice_code === null || row.slice_code === undefined ? null : Number(row.slice_code),
+    totalAmount: Number(row.total_amount),
+    vendorCount: Number(row.vendor_count),
+    hhi: Number(row.hhi),
+    topNShare: Number(row.top_n_share),
+    topVendorId: Number(row.top_vendor_id),
+    topVendorName: optionalText(row.top_vendor_name),
+    topVendorShare: Number(row.top_vendor_share)
+  };
+}
+
+function toVendorShare(row: QueryRow): VendorShare {
+  return {
+    rank: Number(row.vendor_rank),
+    vendorId: Number(row.vendor_id),
+    vendorName: optionalText(row.vendor_name),
+    totalAmount: Number(row.vendor_amount),
+    paymentCount: Number(row.payment_count),
+    share: Number(row.vendor_share)
+  };
+}
+
+/**
+ * Concentration per slice, plus the vendor ranking when the slice isn't grouped
+ */
+export async function analyzeVendorConcentration(options: ConcentrationOptions = {}): Promise<ConcentrationAnalysis> {
+  const compileOptions = await loadCompileOptions();
+  const sqlQuery = buildConcentrationQuery(options, compileOptions);
+  const sliceResult = await runAnalysisQuery(sqlQuery, 'Vendor concentration');
+  if (sliceResult.error || options.groupBy) {
+    return { sqlQuery, slices: sliceResult.rows.map(toSlice), vendors: [], error: sliceResult.error };
+  }
+
+  const vendorResult = await runAnalysisQuery(buildVendorShareQuery(options, compileOptions), 'Vendor share');
+  return {
+    sqlQuery,
+    slices: sliceResult.rows.map(toSlice),
+    vendors: vendorResult.rows.map(toVendorShare),
+    error: vendorResult.error
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Benford's law tool
+ *
+ * Tests whether the leading digits of a slice's payment amounts follow Benford's law -
+ * the first-digit check auditors otherwise run on exported CSVs. Scores conformity with
+ * chi-square and MAD (see lib/database/benford.ts) and returns observed vs expected
+ * percentages as a chart config for AnalyticsChart. No model call.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import { querySpecSchema, resolvedEntitiesSchema, QuerySpecError } from '../database/query-spec';
+import { analyzeBenford, BENFORD_MIN_AMOUNT, BENFORD_TESTS, type BenfordConformity } from '../database/benford';
+import { fixedChartConfig } from '../utils/chart-config';
+
+const CONFORMITY_LABELS: Record<BenfordConformity, string> = {
+  close: 'close conformity',
+  acceptable: 'acceptable conformity',
+  marginal: 'marginally acceptable conformity',
+  nonconforming: 'nonconformity'
+};
+
+function percent(proportion: number): number {
+  return Math.round(proportion * 10000) / 100;
+}
+
+export const benfordAnalysisTool = tool({
+  description: `Run a Benford's law test on the payment amounts of a slice (an agency, payee, comptroller object, period - any generateAnalyticsQuery filters). Compares how often each leading digit (first_digit: 1-9) or pair of digits (first_two_digits: 10-99) occurs with Benford's expected frequencies and scores conformity with chi-square and mean absolute deviation (MAD, judged on Nigrini's ranges). Digits that occur significantly more or less often than expected are listed - an excess of one pair (e.g. 49 for amounts just under $5,000) points at payments shaped around a limit. Amounts under $${BENFORD_MIN_AMOUNT} are skipped. Needs a few hundred payments to be meaningful. Returns observed vs expected bars ready to render. No model call.`,
+  parameters: z.object({
+    test: z.enum(BENFORD_TESTS).optional()
+      .describe('first_digit (default) for overall conformity; first_two_digits to pinpoint amounts shaped around a threshold (needs more payments)'),
+    filters: querySpecSchema.shape.filters.optional().describe('The slice - same filters as generateAnalyticsQuery'),
+    resolvedEntities: resolvedEntitiesSchema.optional()
+  }),
+  execute: async ({ test, filters, resolvedEntities }) => {
+    try {
+      const analysis = await analyzeBenford({ test, filters, resolvedEntities });
+      if (analysis.error) {
+        return { error: analysis.error, sqlQuery: analysis.sqlQuery, results: [] };
+      }
+
+      const label = analysis.test === 'first_digit' ? 'First Digit' : 'First Two Digits';
+      const results = analysis.digits.map(digit => ({
+        digits: digit.digits,
+        payment_count: digit.count,
+        observed_pct: percent(digit.observed),
+        expected_pct: percent(digit.expected),
+        z_score: Math.round(digit.z * 100) / 100,
+        significant: digit.significant
+      }));
+      const flagged = results
+        .filter(digit => digit.significant)
+        .sort((a, b) => Math.abs(b.z_score) - Math.abs(a.z_score));
+      const chiSquare = Math.round(analysis.chiSquare * 10) / 10;
+      const mad = Math.round(analysis.mad * 10000) / 10000;
+      const conformity = CONFORMITY_LABELS[analysis.conformity];
+      const flaggedText = flagged.length === 0
+        ? 'No digit deviates significantly.'
+        : `Significant deviations: ${flagged.slice(0, 5).map(digit => `${digit.digits} (${digit.observed_pct}% vs ${digit.expected_pct}% expected)`).join(', ')}.`;
+      const smallSample = analysis.sampleSize < (analysis.test === 'first_digit' ? 300 : 1000)
+        ? ` Only ${analysis.sampleSize.toLocaleString()} payments - treat the result as indicative.`
+        : '';
+
+      return {
+        result: `${label} test on ${analysis.sampleSize.toLocaleString()} payments: MAD ${mad} (${conformity}), chi-square ${chiSquare} vs ${analysis.chiSquareCritical} critical at 5%. ${flaggedText}${smallSample}`,
+        summary: {
+          test: analysis.test,
+          sampleSize: analysis.sampleSize,
+          mad,
+          conformity: analysis.conformity,
+          chiSquare,
+          chiSquareCritical: analysis.chiSquareCritical,
+          chiSquareRejects: analysis.chiSquare > analysis.chiSquareCritical
+        },
+        results,
+        flagged,
+        chartData: results.map(digit => ({ digits: String(digit.digits), observed_pct: digit.observed_pct, expected_pct: digit.expected_pct })),
+        chartConfig: fixedChartConfig({
+          type: 'bar',
+          title: `Benford's Law: ${label}`,
+          description: `Share of payments by leading ${analysis.test === 'first_digit' ? 'digit' : 'two digits'}, observed vs expected`,
+          xKey: 'digits',
+          yKeys: ['observed_pct', 'expected_pct'],
+          valueFormat: 'percent',
+          takeaway: `Payment amounts show ${conformity} with Benford's law (MAD ${mad}).`
+        }, results.length),
+        sqlQuery: analysis.sqlQuery
+      };
+
+    } catch (e) {
+      if (e instanceof QuerySpecError) {
+        return { error: e.message, results: [] };
+      }
+      console.error('Benford analysis error:', e);
+      return { error: 'Failed to run the Benford test', results: [] };
+    }
+  },
+});
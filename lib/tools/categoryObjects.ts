@@ -0,0 +1,115 @@
+/**
+ * Category ↔ comptroller object lookups from the derived rollup map
+ *
+ * Answers "which objects make up this category", "which category does this object roll
+ * up to" and "what is the 70xx family" without asking the model.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import { getObjectCategoryMap, type ObjectCategoryMap, type ObjectFamily, type ObjectRollup } from '../database/object-categories';
+
+const MAX_LISTED_OBJECTS = 40;
+
+export interface CategoryObjectSummary {
+  code: number;
+  name: string;
+  family: string;
+  // Dollars booked under the requested category
+  totalAmount: number;
+  // Fraction of the object's payments that fall in the requested category
+  share: number;
+}
+
+function summarizeObject(object: ObjectRollup, categoryCode: number): CategoryObjectSummary {
+  const link = object.categories.find(category => category.categoryCode === categoryCode) ?? object.primaryCategory;
+  return {
+    code: object.objectCode,
+    name: object.objectName,
+    family: object.family,
+    totalAmount: link.totalAmount,
+    share: Math.round(link.share * 1000) / 1000
+  };
+}
+
+function describeFamily(family: ObjectFamily): string {
+  return `${family.id} (${family.start}-${family.end}): mostly ${family.categoryName}, ${family.objectCodes.length} objects`;
+}
+
+/**
+ * Objects that roll up to a category, for the drill-down tool and the category lookup
+ */
+export function listCategoryObjects(map: ObjectCategoryMap, categoryCode: number, includeSecondary = false): CategoryObjectSummary[] {
+  return map.objectsForCategory(categoryCode, includeSecondary).map(object => summarizeObject(object, categoryCode));
+}
+
+export const getCategoryObjectsTool = tool({
+  description: 'Look up how comptroller objects roll up to spending categories, derived from the payments data. Give a categoryId to list its comptroller objects, an objectCode to find its category, a family such as "70xx" to list that code range, or nothing for an overview of all object families. No model call - use this before drilling from a category into comptroller objects.',
+  parameters: z.object({
+    categoryId: z.number().optional().describe('Category code from getCategoryCode'),
+    objectCode: z.number().optional().describe('Comptroller object number from getComptrollerCode'),
+    family: z.string().optional().describe('Object code family such as "70xx"'),
+    includeSecondary: z.boolean().optional().describe('Also list objects that only sometimes fall in the category')
+  }),
+  execute: async ({ categoryId, objectCode, family, includeSecondary = false }) => {
+    try {
+      const map = await getObjectCategoryMap();
+
+      if (objectCode !== undefined) {
+        const rollup = map.objectRollup(objectCode);
+        if (!rollup) {
+          return { error: `No payments found for comptroller object ${objectCode}`, categories: [] };
+        }
+        const others = rollup.categories.slice(1).map(link => `${link.categoryName} (${Math.round(link.share * 100)}%)`);
+        return {
+          result: `${rollup.objectName} (${objectCode}) rolls up to ${rollup.primaryCategory.categoryName} (Category ${rollup.primaryCategory.categoryCode})${others.length > 0 ? `; also booked under ${others.join(', ')}` : ''}. It is in the ${rollup.family} family.`,
+          objectCode,
+          family: rollup.family,
+          categories: rollup.categories
+        };
+      }
+
+      if (categoryId !== undefined) {
+        const objects = listCategoryObjects(map, categoryId, includeSecondary);
+        if (objects.length === 0) {
+          return { error: `No comptroller objects found for category ${categoryId}`, objects: [] };
+        }
+        const families = [...new Set(objects.map(object => object.family))]
+          .map(id => map.family(id))
+          .filter((objectFamily): objectFamily is ObjectFamily => Boolean(objectFamily));
+        const listed = objects.slice(0, MAX_LISTED_OBJECTS);
+        return {
+          result: `Category ${categoryId} is made up of ${objects.length} comptroller objects in families ${families.map(objectFamily => objectFamily.id).join(', ')}. Largest: ${listed.slice(0, 10).map(object => `${object.name} (${object.code})`).join(', ')}.`,
+          categoryId,
+          objectCount: objects.length,
+          objects: listed,
+          families: families.map(describeFamily)
+        };
+      }
+
+      if (family) {
+        const objectFamily = map.family(family.toLowerCase());
+        if (!objectFamily) {
+          return { error: `Unknown object family "${family}" - families look like "70xx"`, objects: [] };
+        }
+        return {
+          result: describeFamily(objectFamily),
+          family: objectFamily,
+          objects: objectFamily.objectCodes.map(code => {
+            const rollup = map.objectRollup(code)!;
+            return { code, name: rollup.objectName, categoryName: rollup.primaryCategory.categoryName };
+          })
+        };
+      }
+
+      return {
+        result: `${map.objects.length} comptroller objects in ${map.families().length} families.`,
+        families: map.families().map(describeFamily)
+      };
+
+    } catch (e) {
+      console.error('Category object lookup error:', e);
+      return { error: 'Failed to load the comptroller object rollup', objects: [] };
+    }
+  },
+});
@@ -0,0 +1,80 @@
+/**
+ * Duplicate payment detection tool
+ *
+ * Groups payments that look paid twice (see lib/database/duplicate-payments.ts) and
+ * returns them with a confidence label, the dollar exposure of the likely duplicates and
+ * the repeated amounts to review, plus a query for the CSV download of every group. No
+ * model call.
+ */
+
+import { tool } from 'ai';
+import {
+  DUPLICATE_CONFIDENCE,
+  duplicateOptionsSchema,
+  findDuplicatePayments,
+  totalDuplicateAmounts,
+  type DuplicateOptions
+} from '../database/duplicate-payments';
+import { QuerySpecError } from '../database/query-spec';
+
+function formatDollars(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+/**
+ * Run a duplicate search and summarize it, for the chat tool and the API route
+ */
+export async function detectDuplicatePayments(options: DuplicateOptions) {
+  const search = await findDuplicatePayments(options);
+  if (search.error) {
+    return { error: search.error, sqlQuery: search.sqlQuery, groups: [] };
+  }
+
+  const { exposure, reviewAmount } = totalDuplicateAmounts(search.groups);
+  const reviewGroupCount = search.groups.filter(group => group.confidence === 'low').length;
+  const duplicateGroupCount = search.groups.length - reviewGroupCount;
+  const counts = DUPLICATE_CONFIDENCE
+    .filter(confidence => confidence !== 'low')
+    .map(confidence => [confidence, search.groups.filter(group => group.confidence === confidence).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([confidence, count]) => `${count} ${confidence}`);
+
+  const duplicateText = duplicateGroupCount > 0
+    ? `${duplicateGroupCount} likely duplicate groups (${counts.join(', ')} confidence), ${formatDollars(exposure.high)} of high-confidence exposure.`
+    : 'No likely duplicate payments found.';
+  const reviewText = reviewGroupCount > 0
+    ? ` ${reviewGroupCount} repeated amounts to review (${formatDollars(reviewAmount)} beyond the first payments), often rent or installments.`
+    : '';
+  const skippedText = search.skippedPatterns.includes('related_payees')
+    ? ' Payments to related payee IDs were not checked: the vendor clusters have not been built.'
+    : '';
+
+  return {
+    result: `${duplicateText}${reviewText}${skippedText}`,
+    groups: search.groups,
+    // Each payment counted once across groups
+    exposureByConfidence: exposure,
+    reviewCandidates: { groupCount: reviewGroupCount, amount: reviewAmount },
+    skippedPatterns: search.skippedPatterns,
+    sqlQuery: search.sqlQuery,
+    // Every group, for /api/download-csv
+    exportQuery: search.exportQuery,
+    filename: `duplicate-payments-${new Date().toISOString().slice(0, 10)}.csv`
+  };
+}
+
+export const detectDuplicatePaymentsTool = tool({
+  description: 'Find likely duplicate payments: the same payee and amount within a few days, the same amount paid to different payee IDs of one vendor, or one agency repeatedly paying one payee the same exact amount. Returns groups of payment keys with a high/medium/low confidence label, the dollar exposure of the likely duplicates and the repeated amounts to review (low confidence, often rent); the result card offers a CSV download of every group. No model call. Use for "duplicate", "double paid" or "paid twice" questions; narrow with filters from the lookup tools.',
+  parameters: duplicateOptionsSchema,
+  execute: async options => {
+    try {
+      return await detectDuplicatePayments(options);
+    } catch (e) {
+      if (e instanceof QuerySpecError) {
+        return { error: e.message, groups: [] };
+      }
+      console.error('Duplicate payment detection error:', e);
+      return { error: 'Failed to check payments for duplicates', groups: [] };
+    }
+  },
+});
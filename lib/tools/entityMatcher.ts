@@ -0,0 +1,281 @@
+/**
+ * Deterministic fuzzy matcher for the code lookup tools
+ *
+ * Ranks agencies, categories, funds and comptroller objects for a search term using
+ * numeric code matching, an abbreviation dictionary, token similarity and character
+ * trigrams. The lookup tools only ask the model when the ranking is ambiguous.
+ */
+
+export interface MatchableEntity {
+  code: number;
+  name: string;
+}
+
+export type EntityMatchType = 'code' | 'abbreviation' | 'exact' | 'phrase' | 'fuzzy';
+
+export interface EntityMatch extends MatchableEntity {
+  // 0-1, higher is better
+  score: number;
+  matchType: EntityMatchType;
+}
+
+export interface EntityMatchResult {
+  matches: EntityMatch[];
+  // True when the top match isn't clearly right and the model should decide
+  ambiguous: boolean;
+}
+
+export interface EntityMatcherOptions {
+  // Normalized term -> codes it stands for
+  abbreviations?: Record<string, number[]>;
+}
+
+export interface EntityMatcher {
+  match(searchTerm: string, limit?: number): EntityMatchResult;
+}
+
+// ========================================
+// ABBREVIATION DICTIONARIES
+// ========================================
+
+export const AGENCY_ABBREVIATIONS: Record<string, number[]> = {
+  'txdot': [601],
+  'tx dot': [601],
+  'dot': [601],
+  'dps': [405],
+  'hhsc': [529],
+  'hhs': [529],
+  'tea': [701],
+  'utsw': [729],
+  'ut southwestern': [729],
+  'tamu': [711],
+  'texas am': [711],
+  'ut': [721],
+  'ut austin': [721],
+  'uh': [730],
+  'ttu': [733],
+  'tdcj': [696],
+  'tceq': [582],
+  'twc': [320],
+  'glo': [305],
+  'tpwd': [802],
+  'txdmv': [608],
+  'dmv': [608],
+  'tdi': [454],
+  'tdlr': [452],
+  'tabc': [458],
+  'twdb': [580],
+  'dfps': [530],
+  'cps': [530],
+  'ers': [327],
+  'trs': [323],
+  'tjjd': [644],
+  'tdem': [575],
+  'cpa': [304],
+  'comptroller': [304],
+  'rrc': [455],
+  'tmb': [503],
+  'tvc': [403],
+  'sfa': [755],
+  'shsu': [753],
+  'uthealth': [744],
+  'ag': [302],
+  'oag': [302]
+};
+
+export const CATEGORY_ABBREVIATIONS: Record<string, number[]> = {
+  'payroll': [1],
+  'salaries': [1],
+  'wages': [1],
+  'pay': [1],
+  'benefits': [2],
+  'utilities': [15],
+  'consulting': [9],
+  'contractors': [9],
+  'welfare': [5],
+  'highways': [12],
+  'roads': [12],
+  'leases': [16],
+  'rent': [16],
+  'maintenance': [14],
+  'lottery': [7],
+  'debt interest': [11],
+  'debt principal': [10]
+};
+
+export const FUND_ABBREVIATIONS: Record<string, number[]> = {
+  'gr': [1],
+  'general revenue': [1]
+};
+
+// ========================================
+// NORMALIZATION AND SIMILARITY
+// ========================================
+
+// Words too common in entity names to tell them apart
+const STOP_WORDS = new Set(['of', 'the', 'and', 'for', 'at', 'in', 'on', 'to', 'a']);
+
+export function normalizeEntityText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, '')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  return normalizeEntityText(text).split(' ').filter(token => token && !STOP_WORDS.has(token));
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+// Dice coefficient over character trigrams
+function trigramSimilarity(a: string, b: string): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  gramsA.forEach(gram => {
+    if (gramsB.has(gram)) shared++;
+  });
+  return (2 * shared) / (gramsA.size + gramsB.size || 1);
+}
+
+function tokenSimilarity(queryToken: string, nameToken: string): number {
+  if (queryToken === nameToken) return 1;
+  // "transport" → "transportation", "univ" → "university"
+  if (queryToken.length >= 3 && nameToken.startsWith(queryToken)) return 0.9;
+  if (/^\d+$/.test(queryToken) || /^\d+$/.test(nameToken)) return 0;
+  return trigramSimilarity(queryToken, nameToken);
+}
+
+// Average over query tokens of the best-matching name token
+function tokenSetScore(queryTokens: string[], nameTokens: string[]): number {
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+  const total = queryTokens.reduce(
+    (sum, queryToken) => sum + Math.max(...nameTokens.map(nameToken => tokenSimilarity(queryToken, nameToken))),
+    0
+  );
+  return total / queryTokens.length;
+}
+
+// Initials, with and without stop words: "Texas Education Agency" → "tea"
+function acronyms(name: string): string[] {
+  const words = normalizeEntityText(name).split(' ').filter(Boolean);
+  const all = words.map(word => word[0]).join('');
+  const significant = words.filter(word => !STOP_WORDS.has(word)).map(word => word[0]).join('');
+  return [...new Set([all, significant])].filter(acronym => acronym.length >= 2);
+}
+
+// ========================================
+// MATCHER
+// ========================================
+
+// Scores at or above this are trusted without asking the model...
+const CONFIDENT_SCORE = 0.85;
+// ...as long as the runner-up is at least this far behind
+const CONFIDENT_MARGIN = 0.1;
+// A weaker top score is still trusted when nothing else comes close
+const CLEAR_WINNER_SCORE = 0.75;
+const CLEAR_WINNER_MARGIN = 0.3;
+
+interface IndexedEntity extends MatchableEntity {
+  normalizedName: string;
+  tokens: string[];
+  acronyms: string[];
+}
+
+export function createEntityMatcher(entities: MatchableEntity[], options: EntityMatcherOptions = {}): EntityMatcher {
+  const indexed: IndexedEntity[] = entities.map(entity => ({
+    ...entity,
+    normalizedName: normalizeEntityText(entity.name),
+    tokens: tokenize(entity.name),
+    acronyms: acronyms(entity.name)
+  }));
+  const byCode = new Map(indexed.map(entity => [entity.code, entity]));
+  const abbreviations = new Map(
+    Object.entries(options.abbreviations ?? {}).map(([term, codes]) => [normalizeEntityText(term), codes])
+  );
+
+  function scoreEntity(entity: IndexedEntity, query: string, queryTokens: string[]): EntityMatch {
+    const result = (score: number, matchType: EntityMatchType): EntityMatch => ({
+      code: entity.code,
+      name: entity.name,
+      score: Math.round(score * 1000) / 1000,
+      matchType
+    });
+
+    if (entity.normalizedName === query) {
+      return result(1, 'exact');
+    }
+    if (entity.acronyms.includes(query.replace(/ /g, ''))) {
+      return result(0.9, 'abbreviation');
+    }
+
+    const fuzzy = 0.65 * tokenSetScore(queryTokens, entity.tokens) + 0.35 * trigramSimilarity(query, entity.normalizedName);
+
+    // The whole search term appears in the name, scaled by how much of the name it covers
+    if (` ${entity.normalizedName} `.includes(` ${query} `)) {
+      const phrase = 0.75 + 0.2 * (query.length / entity.normalizedName.length);
+      if (phrase >= fuzzy) {
+        return result(phrase, 'phrase');
+      }
+    }
+
+    return result(fuzzy, 'fuzzy');
+  }
+
+  return {
+    match(searchTerm: string, limit: number = 8): EntityMatchResult {
+      const query = normalizeEntityText(searchTerm);
+      if (!query) {
+        return { matches: [], ambiguous: true };
+      }
+
+      // Numeric codes, including zero-padded ones like "0001"
+      if (/^\d+$/.test(query)) {
+        const entity = byCode.get(Number(query));
+        if (entity) {
+          return {
+            matches: [{ code: entity.code, name: entity.name, score: 1, matchType: 'code' }],
+            ambiguous: false
+          };
+        }
+      }
+
+      const abbreviationCodes = abbreviations.get(query);
+      if (abbreviationCodes) {
+        const matches = abbreviationCodes
+          .map(code => byCode.get(code))
+          .filter((entity): entity is IndexedEntity => Boolean(entity))
+          .map(entity => ({ code: entity.code, name: entity.name, score: 0.98, matchType: 'abbreviation' as const }));
+        if (matches.length > 0) {
+          return { matches, ambiguous: false };
+        }
+      }
+
+      const queryTokens = tokenize(searchTerm);
+      const matches = indexed
+        .map(entity => scoreEntity(entity, query, queryTokens))
+        .filter(match => match.score >= 0.3)
+        .sort((a, b) => b.score - a.score || a.name.length - b.name.length)
+        .slice(0, limit);
+
+      const [top, runnerUp] = matches;
+      const margin = top && runnerUp ? top.score - runnerUp.score : 1;
+      const ambiguous = !top || !(
+        (top.score >= CONFIDENT_SCORE && margin >= CONFIDENT_MARGIN)
+        || (top.score >= CLEAR_WINNER_SCORE && margin >= CLEAR_WINNER_MARGIN)
+      );
+
+      return { matches, ambiguous };
+    }
+  };
+}
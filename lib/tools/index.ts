@@ -4,6 +4,8 @@ export {
   getPayeeCodeTool, 
   getApplicationFundCodeTool, 
   getComptrollerCodeTool,
+  getFundCodeTool,
+  getAppropriationCodeTool,
   generateAnalyticsQueryTool,
   executeAnalyticsQueryTool,
   explainSQLQueryTool,
@@ -11,3 +13,13 @@ export {
   prepareBulkDownloadTool,
   generateDrillDownQueryTool
 } from './databaseCodes';
+
+export { chooseEntityTool } from './lookupCandidates';
+export { getCategoryObjectsTool } from './categoryObjects';
+export { detectAnomaliesTool } from './paymentAnomalies';
+export { detectDuplicatePaymentsTool } from './duplicatePayments';
+export { analyzeVendorConcentrationTool } from './vendorConcentration';
+export { benfordAnalysisTool } from './benfordAnalysis';
+export { comparePeriodsTool } from './periodComparison';
+export type { LookupCandidate, LookupResult, EntityChoice } from './lookupCandidates';
+export type { AnomalyResult } from './paymentAnomalies';
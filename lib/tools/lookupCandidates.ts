@@ -0,0 +1,100 @@
+/**
+ * Structured results for the code lookup tools
+ *
+ * Besides the prose summary the model reads, every lookup returns typed candidates so
+ * /analyst can show them as chips. When several are plausible the model calls the
+ * client-side chooseEntity tool and the user's pick comes back as its tool result.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import type { EntityMatch, EntityMatchType } from './entityMatcher';
+
+export const LOOKUP_ENTITY_TYPES = ['agency', 'category', 'applicationFund', 'fund', 'appropriation', 'comptroller', 'payee'] as const;
+
+export type LookupEntityType = typeof LOOKUP_ENTITY_TYPES[number];
+export type LookupConfidence = 'high' | 'medium' | 'low';
+
+export interface LookupCandidate {
+  code: number;
+  name: string;
+  confidence: LookupConfidence;
+  reason: string;
+}
+
+export interface LookupResult {
+  // Summary for the model
+  result: string;
+  entityType: LookupEntityType;
+  candidates: LookupCandidate[];
+  // More than one candidate - the user should pick rather than the model guessing
+  needsSelection: boolean;
+}
+
+// Result of the chooseEntity tool, sent back by the page
+export interface EntityChoice {
+  entityType: LookupEntityType;
+  code: number;
+  name: string;
+}
+
+export function lookupResult(entityType: LookupEntityType, result: string, candidates: LookupCandidate[] = []): LookupResult {
+  return { result, entityType, candidates, needsSelection: candidates.length > 1 };
+}
+
+const MATCH_TYPE_DESCRIPTIONS: Record<EntityMatchType, string> = {
+  code: 'code number',
+  abbreviation: 'abbreviation',
+  exact: 'exact name',
+  phrase: 'name phrase',
+  fuzzy: 'name similarity'
+};
+
+export function describeMatchType(matchType: EntityMatchType): string {
+  return MATCH_TYPE_DESCRIPTIONS[matchType];
+}
+
+// Same thresholds as the matcher's own confidence rule
+function scoreConfidence(score: number): LookupConfidence {
+  if (score >= 0.85) return 'high';
+  if (score >= 0.6) return 'medium';
+  return 'low';
+}
+
+export function matcherCandidates(matches: EntityMatch[]): LookupCandidate[] {
+  return matches.map(match => ({
+    code: match.code,
+    name: match.name,
+    confidence: scoreConfidence(match.score),
+    reason: `Matched by ${MATCH_TYPE_DESCRIPTIONS[match.matchType]} (score ${match.score})`
+  }));
+}
+
+export function modelCandidates(
+  matches: Array<{ code: number; name: string; relevanceReason: string }>,
+  confidence: LookupConfidence
+): LookupCandidate[] {
+  return matches.map(match => ({
+    code: match.code,
+    name: match.name,
+    confidence,
+    reason: match.relevanceReason
+  }));
+}
+
+export const lookupCandidateSchema = z.object({
+  code: z.number(),
+  name: z.string(),
+  confidence: z.enum(['high', 'medium', 'low']),
+  reason: z.string()
+});
+
+// No execute - the /analyst page renders the candidates and answers with addToolResult
+export const chooseEntityTool = tool({
+  description: 'Ask the user to pick one entity when a lookup returned needsSelection: true. Pass the lookup\'s candidates unchanged; the result is the user\'s choice ({ entityType, code, name }).',
+  parameters: z.object({
+    entityType: z.enum(LOOKUP_ENTITY_TYPES),
+    searchTerm: z.string().describe('What the user originally asked for'),
+    candidates: z.array(lookupCandidateSchema).min(2)
+  })
+});
@@ -0,0 +1,119 @@
+/**
+ * Unusual payment detection
+ *
+ * Scores payments against their peer group with robust statistics (see
+ * lib/database/payment-anomalies.ts) and returns the strongest outliers with the
+ * baseline each one deviates from. No model call - the query is built from the filters.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import {
+  ANOMALY_DEFAULTS,
+  ANOMALY_METHODS,
+  ANOMALY_PEER_GROUPS,
+  findPaymentAnomalies,
+  type AnomalyBaseline,
+  type AnomalyMethod,
+  type AnomalyPeerGroup
+} from '../database/payment-anomalies';
+import { querySpecSchema, resolvedEntitiesSchema, QuerySpecError } from '../database/query-spec';
+import { getReferenceData } from '../database/reference-data';
+
+export interface AnomalyResult {
+  key: number;
+  date: string;
+  amount: number;
+  agency: string;
+  comptrollerObject: string;
+  payee: string;
+  payeeId: number;
+  robustZ: number | null;
+  iqrDistance: number | null;
+  // Amount as a multiple of the peer median
+  timesMedian: number | null;
+  baseline: AnomalyBaseline & { description: string };
+}
+
+const PEER_GROUP_LABELS: Record<AnomalyPeerGroup, string> = {
+  agency_object: 'same agency and comptroller object',
+  payee: 'same payee'
+};
+
+const METHOD_LABELS: Record<AnomalyMethod, string> = {
+  robust_z: 'robust z-score',
+  iqr: 'IQRs beyond the quartiles'
+};
+
+function round(value: number | null, digits = 2): number | null {
+  return value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits));
+}
+
+function formatDollars(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+export const detectAnomaliesTool = tool({
+  description: `Find unusual payments by comparing each payment with its peer group - the same agency and comptroller object, or the same payee's payment history - using robust z-scores (median and MAD) or the interquartile range. Returns the top outliers with the baseline they deviate from. No model call. Use for "unusual", "suspicious", "outlier" or "anomalous" payments questions; narrow with filters from the lookup tools.`,
+  parameters: z.object({
+    peerGroup: z.enum(ANOMALY_PEER_GROUPS).optional()
+      .describe('agency_object (default) compares with the agency\'s other payments for the same comptroller object; payee compares with the payee\'s own history'),
+    method: z.enum(ANOMALY_METHODS).optional()
+      .describe(`robust_z (default, flags |z| >= ${ANOMALY_DEFAULTS.robustZThreshold}) or iqr (flags payments ${ANOMALY_DEFAULTS.iqrThreshold}+ interquartile ranges beyond the quartiles)`),
+    threshold: z.number().optional().describe('Override the flagging cut-off on the method\'s scale'),
+    includeLow: z.boolean().optional().describe('Also flag payments far below their peers (default: only unusually large ones)'),
+    minPeerCount: z.number().optional().describe(`Smallest peer group to score (default ${ANOMALY_DEFAULTS.minPeerCount})`),
+    limit: z.number().optional().describe(`Outliers to return (default ${ANOMALY_DEFAULTS.limit}, at most ${ANOMALY_DEFAULTS.maxLimit})`),
+    filters: querySpecSchema.shape.filters.optional().describe('Which payments to score - same filters as generateAnalyticsQuery'),
+    resolvedEntities: resolvedEntitiesSchema.optional()
+  }),
+  execute: async ({ peerGroup = 'agency_object', method = 'robust_z', threshold, includeLow, minPeerCount, limit, filters, resolvedEntities }) => {
+    try {
+      const [search, referenceData] = await Promise.all([
+        findPaymentAnomalies({ peerGroup, method, threshold, includeLow, minPeerCount, limit, filters, resolvedEntities }),
+        getReferenceData()
+      ]);
+
+      if (search.error) {
+        return { error: search.error, sqlQuery: search.sqlQuery, anomalies: [] };
+      }
+
+      const description = PEER_GROUP_LABELS[peerGroup];
+      const anomalies: AnomalyResult[] = search.anomalies.map(anomaly => ({
+        key: anomaly.key,
+        date: anomaly.date,
+        amount: anomaly.amount,
+        agency: referenceData.findByCode('agencyCodes', anomaly.agencyCode)?.name ?? `Agency ${anomaly.agencyCode}`,
+        comptrollerObject: referenceData.findByCode('comptrollerCodes', anomaly.objectCode)?.name ?? `Object ${anomaly.objectCode}`,
+        payee: anomaly.payeeName ?? `Payee ${anomaly.payeeId}`,
+        payeeId: anomaly.payeeId,
+        robustZ: round(anomaly.robustZ),
+        iqrDistance: round(anomaly.iqrDistance),
+        timesMedian: anomaly.baseline.median > 0 ? round(anomaly.amount / anomaly.baseline.median, 1) : null,
+        baseline: { ...anomaly.baseline, description }
+      }));
+
+      const top = anomalies.slice(0, 3).map(anomaly =>
+        `${formatDollars(anomaly.amount)} to ${anomaly.payee} on ${anomaly.date} (peer median ${formatDollars(anomaly.baseline.median)} across ${anomaly.baseline.peerCount} payments)`
+      );
+
+      return {
+        result: anomalies.length === 0
+          ? `No payments scored ${search.threshold}+ on ${METHOD_LABELS[method]} against the ${description}.`
+          : `${anomalies.length} payments scored ${search.threshold}+ on ${METHOD_LABELS[method]} against the ${description}. Largest: ${top.join('; ')}.`,
+        peerGroup,
+        method,
+        threshold: search.threshold,
+        anomalies,
+        sqlQuery: search.sqlQuery
+      };
+
+    } catch (e) {
+      if (e instanceof QuerySpecError) {
+        return { error: e.message, anomalies: [] };
+      }
+      console.error('Anomaly detection error:', e);
+      return { error: 'Failed to score payments for anomalies', anomalies: [] };
+    }
+  },
+});
@@ -0,0 +1,124 @@
+/**
+ * Period-over-period comparison tool
+ *
+ * Answers "March vs February" or "Q2 vs Q3" in one query instead of two ad-hoc ones:
+ * each member of a dimension with both periods' values, the absolute and percent change,
+ * and which members are new or dropped (see lib/database/period-comparison.ts). Returns
+ * a diverging bar chart of the changes for AnalyticsChart. No model call.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import { querySpecSchema, resolvedEntitiesSchema, QuerySpecError } from '../database/query-spec';
+import {
+  comparePeriods,
+  COMPARISON_DEFAULTS,
+  COMPARISON_DIMENSIONS,
+  COMPARISON_MEASURES,
+  type DateRange
+} from '../database/period-comparison';
+import { fixedChartConfig } from '../utils/chart-config';
+
+const periodSchema = resolvedEntitiesSchema.shape.dateRange.unwrap();
+
+function periodLabel(period: DateRange, label: string | undefined): string {
+  return label ?? `${period.start} to ${period.end}`;
+}
+
+function roundPercent(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+export const comparePeriodsTool = tool({
+  description: `Compare two date ranges member by member along one dimension, e.g. "how did March compare to February by agency" or "Q2 vs Q3 by vendor". Returns each member's value in both periods with the absolute and percent change (largest absolute changes first), members that are new in the current period or dropped since the baseline, the slice totals, and a diverging bar chart of the changes ready to render. Use filters for the slice (same as generateAnalyticsQuery, without dateRange - the two periods replace it). Periods are inclusive YYYY-MM-DD ranges and may differ in length. No model call.`,
+  parameters: z.object({
+    dimension: z.enum(COMPARISON_DIMENSIONS).describe('What to compare the periods by - same meaning as the generateAnalyticsQuery dimensions'),
+    baselinePeriod: periodSchema.describe('The earlier or reference period, e.g. February: {start: "2022-02-01", end: "2022-02-28"}'),
+    currentPeriod: periodSchema.describe('The period compared with the baseline, e.g. March: {start: "2022-03-01", end: "2022-03-31"}'),
+    baselineLabel: z.string().optional().describe('Short name for the baseline period, e.g. "February" or "Q2"'),
+    currentLabel: z.string().optional().describe('Short name for the current period, e.g. "March" or "Q3"'),
+    measure: z.enum(COMPARISON_MEASURES).optional().describe('sum = dollars (default), count = number of payments'),
+    limit: z.number().optional()
+      .describe(`Members to return, largest change first (default ${COMPARISON_DEFAULTS.limit}, at most ${COMPARISON_DEFAULTS.maxLimit})`),
+    filters: querySpecSchema.shape.filters.optional().describe('The slice - same filters as generateAnalyticsQuery; dateRange is ignored'),
+    resolvedEntities: resolvedEntitiesSchema.optional()
+  }),
+  execute: async ({ dimension, baselinePeriod, currentPeriod, baselineLabel, currentLabel, measure, limit, filters, resolvedEntities }) => {
+    try {
+      const comparison = await comparePeriods({ dimension, baselinePeriod, currentPeriod, measure, limit, filters, resolvedEntities });
+      if (comparison.error) {
+        return { error: comparison.error, sqlQuery: comparison.sqlQuery, results: [] };
+      }
+
+      const baselineName = periodLabel(baselinePeriod, baselineLabel);
+      const currentName = periodLabel(currentPeriod, currentLabel);
+      if (comparison.members.length === 0) {
+        return { result: `No payments in ${baselineName} or ${currentName} for this slice.`, sqlQuery: comparison.sqlQuery, results: [] };
+      }
+
+      const valueName = comparison.measure === 'sum' ? 'amount' : 'count';
+      const results = comparison.members.map(member => ({
+        [dimension]: member.name,
+        code: member.code,
+        [`baseline_${valueName}`]: member.baselineValue,
+        [`current_${valueName}`]: member.currentValue,
+        [`change_${valueName}`]: member.change,
+        change_pct: roundPercent(member.changePercent),
+        status: member.status
+      }));
+      // Diverging bars: increases and decreases stacked on one bar around zero
+      const chartData = comparison.members.map(member => ({
+        name: member.name,
+        increase: Math.max(member.change, 0),
+        decrease: Math.min(member.change, 0)
+      }));
+
+      const totalChange = comparison.currentTotal - comparison.baselineTotal;
+      const totalChangePercent = comparison.baselineTotal === 0 ? null : roundPercent(totalChange / Math.abs(comparison.baselineTotal) * 100);
+      const format = (value: number) => comparison.measure === 'sum'
+        ? value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+        : value.toLocaleString('en-US');
+      const [largest] = comparison.members;
+      const dimensionName = dimension.replace(/_/g, ' ');
+
+      return {
+        result: `${currentName}: ${format(comparison.currentTotal)} vs ${format(comparison.baselineTotal)} in ${baselineName} (${totalChange >= 0 ? '+' : ''}${format(totalChange)}${totalChangePercent === null ? '' : `, ${totalChangePercent >= 0 ? '+' : ''}${totalChangePercent}%`}). ${comparison.memberCount.toLocaleString()} ${dimensionName} members, ${comparison.newCount} new and ${comparison.droppedCount} dropped. Largest change: ${largest.name} (${largest.change >= 0 ? '+' : ''}${format(largest.change)}).`,
+        summary: {
+          baselinePeriod: { ...baselinePeriod, label: baselineName },
+          currentPeriod: { ...currentPeriod, label: currentName },
+          measure: comparison.measure,
+          baselineTotal: comparison.baselineTotal,
+          currentTotal: comparison.currentTotal,
+          change: totalChange,
+          changePercent: totalChangePercent,
+          memberCount: comparison.memberCount,
+          newCount: comparison.newCount,
+          droppedCount: comparison.droppedCount
+        },
+        results,
+        newMembers: comparison.members.filter(member => member.status === 'new').map(member => member.name),
+        droppedMembers: comparison.members.filter(member => member.status === 'dropped').map(member => member.name),
+        chartData,
+        chartConfig: fixedChartConfig({
+          type: 'bar',
+          title: `${currentName} vs ${baselineName} by ${dimensionName}`,
+          description: `Change in ${comparison.measure === 'sum' ? 'dollars' : 'payments'} per ${dimensionName}, largest changes first`,
+          xKey: 'name',
+          yKeys: ['increase', 'decrease'],
+          colors: { increase: '#2ca02c', decrease: '#d62728' },
+          valueFormat: comparison.measure === 'sum' ? 'currency' : 'number',
+          stacked: true,
+          takeaway: `${largest.name} changed the most: ${largest.change >= 0 ? '+' : ''}${format(largest.change)} from ${baselineName} to ${currentName}.`
+        }, chartData.length, `${baselineName} and ${currentName}`),
+        sqlQuery: comparison.sqlQuery
+      };
+
+    } catch (e) {
+      if (e instanceof QuerySpecError) {
+        return { error: e.message, results: [] };
+      }
+      console.error('Period comparison error:', e);
+      return { error: 'Failed to compare the periods', results: [] };
+    }
+  },
+});
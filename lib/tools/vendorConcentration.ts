@@ -0,0 +1,147 @@
+/**
+ * Vendor concentration (HHI) tool
+ *
+ * Where does an agency, category or comptroller object depend on a single vendor?
+ * Computes vendor shares, top-N share and the Herfindahl-Hirschman Index (see
+ * lib/database/vendor-concentration.ts) and returns a ranked list with a chart config
+ * for AnalyticsChart. No model call.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import { querySpecSchema, resolvedEntitiesSchema, QuerySpecError } from '../database/query-spec';
+import { getReferenceData, type ReferenceData } from '../database/reference-data';
+import type { ReferenceTableName } from '../database/data-source';
+import {
+  analyzeVendorConcentration,
+  concentrationLevel,
+  CONCENTRATION_DEFAULTS,
+  CONCENTRATION_GROUPINGS,
+  HHI_THRESHOLDS,
+  type ConcentrationGrouping
+} from '../database/vendor-concentration';
+import { fixedChartConfig } from '../utils/chart-config';
+
+const GROUPING_TABLES: Record<ConcentrationGrouping, { table: ReferenceTableName; label: string }> = {
+  agency: { table: 'agencyCodes', label: 'Agency' },
+  category: { table: 'categoryCodes', label: 'Category' },
+  comptroller: { table: 'comptrollerCodes', label: 'Object' }
+};
+
+function percent(share: number): number {
+  return Math.round(share * 1000) / 10;
+}
+
+function sliceName(referenceData: ReferenceData, groupBy: ConcentrationGrouping, code: number | null): string {
+  const { table, label } = GROUPING_TABLES[groupBy];
+  return code === null ? 'Unknown' : referenceData.findByCode(table, code)?.name ?? `${label} ${code}`;
+}
+
+export const analyzeVendorConcentrationTool = tool({
+  description: `Measure how dependent a slice of spending is on a few vendors: each vendor's share, the top-N vendors' combined share and the Herfindahl-Hirschman Index (HHI, 0-10,000; above ${HHI_THRESHOLDS.high} is highly concentrated). Use filters for the slice (an agency, category or comptroller object from the lookup tools). With groupBy, ranks the agencies, categories or comptroller objects inside the slice by HHI to show where one vendor dominates; without it, ranks the slice's vendors. Payee spellings are merged into vendors and "Confidential" recipients are left out by default. Returns a chart config ready to render. No model call.`,
+  parameters: z.object({
+    groupBy: z.enum(CONCENTRATION_GROUPINGS).optional()
+      .describe('Split the slice and rank the parts by HHI, e.g. comptroller to find which objects of an agency depend on one vendor'),
+    topN: z.number().optional().describe(`N for the top-N share (default ${CONCENTRATION_DEFAULTS.topN})`),
+    limit: z.number().optional().describe(`Rows to return (default ${CONCENTRATION_DEFAULTS.limit})`),
+    minSliceAmount: z.number().optional()
+      .describe(`With groupBy, skip parts with less spending than this (default $${CONCENTRATION_DEFAULTS.minSliceAmount.toLocaleString()})`),
+    includeConfidential: z.boolean().optional().describe('Count "Confidential" individual recipients as a vendor'),
+    filters: querySpecSchema.shape.filters.optional().describe('The slice - same filters as generateAnalyticsQuery'),
+    resolvedEntities: resolvedEntitiesSchema.optional()
+  }),
+  execute: async ({ groupBy, topN = CONCENTRATION_DEFAULTS.topN, limit, minSliceAmount, includeConfidential, filters, resolvedEntities }) => {
+    try {
+      const [analysis, referenceData] = await Promise.all([
+        analyzeVendorConcentration({ groupBy, topN, limit, minSliceAmount, includeConfidential, filters, resolvedEntities }),
+        getReferenceData()
+      ]);
+
+      if (analysis.error) {
+        return { error: analysis.error, sqlQuery: analysis.sqlQuery, results: [] };
+      }
+      if (analysis.slices.length === 0) {
+        return { result: 'No vendor spending found for this slice.', sqlQuery: analysis.sqlQuery, results: [] };
+      }
+
+      if (groupBy) {
+        const { label } = GROUPING_TABLES[groupBy];
+        const results = analysis.slices.map(slice => ({
+          [label.toLowerCase()]: sliceName(referenceData, groupBy, slice.sliceCode),
+          code: slice.sliceCode,
+          total_amount: slice.totalAmount,
+          vendor_count: slice.vendorCount,
+          hhi: Math.round(slice.hhi),
+          concentration: concentrationLevel(slice.hhi),
+          [`top_${topN}_share_pct`]: percent(slice.topNShare),
+          top_vendor: slice.topVendorName ?? `Payee ${slice.topVendorId}`,
+          top_vendor_share_pct: percent(slice.topVendorShare)
+        }));
+        const chartData = analysis.slices.map(slice => ({
+          name: sliceName(referenceData, groupBy, slice.sliceCode),
+          top_vendor_amount: Math.round(slice.totalAmount * slice.topVendorShare),
+          other_vendors_amount: Math.round(slice.totalAmount * (1 - slice.topVendorShare))
+        }));
+        const highCount = analysis.slices.filter(slice => concentrationLevel(slice.hhi) === 'high').length;
+        const [first] = results;
+
+        return {
+          result: `${highCount} of ${results.length} ${label.toLowerCase()} slices are highly concentrated (HHI > ${HHI_THRESHOLDS.high}). Most concentrated: ${first[label.toLowerCase()]} (HHI ${first.hhi}), where ${first.top_vendor} receives ${first.top_vendor_share_pct}% of the money.`,
+          groupBy,
+          results,
+          chartData,
+          chartConfig: fixedChartConfig({
+            type: 'bar',
+            title: `Vendor Concentration by ${label}`,
+            description: `Dollars to the largest vendor vs all other vendors, most concentrated ${label.toLowerCase()} first`,
+            xKey: 'name',
+            yKeys: ['top_vendor_amount', 'other_vendors_amount'],
+            takeaway: `${first[label.toLowerCase()]} is the most dependent on a single vendor (HHI ${first.hhi}).`
+          }, chartData.length),
+          sqlQuery: analysis.sqlQuery
+        };
+      }
+
+      const [slice] = analysis.slices;
+      const results = analysis.vendors.map(vendor => ({
+        rank: vendor.rank,
+        vendor: vendor.vendorName ?? `Payee ${vendor.vendorId}`,
+        vendor_id: vendor.vendorId,
+        total_amount: vendor.totalAmount,
+        payment_count: vendor.paymentCount,
+        share_pct: percent(vendor.share)
+      }));
+      const hhi = Math.round(slice.hhi);
+
+      return {
+        result: `HHI ${hhi} (${concentrationLevel(slice.hhi)} concentration) across ${slice.vendorCount.toLocaleString()} vendors. The top ${topN} receive ${percent(slice.topNShare)}% of the money; the largest, ${results[0]?.vendor}, receives ${percent(slice.topVendorShare)}%.`,
+        summary: {
+          totalAmount: slice.totalAmount,
+          vendorCount: slice.vendorCount,
+          hhi,
+          concentration: concentrationLevel(slice.hhi),
+          topNShare: percent(slice.topNShare),
+          topN
+        },
+        results,
+        chartData: results.map(vendor => ({ name: vendor.vendor, total_amount: vendor.total_amount })),
+        chartConfig: fixedChartConfig({
+          type: 'bar',
+          title: 'Largest Vendors',
+          description: `Top ${results.length} vendors by dollars received - HHI ${hhi}, top ${topN} share ${percent(slice.topNShare)}%`,
+          xKey: 'name',
+          yKeys: ['total_amount'],
+          takeaway: `${results[0]?.vendor} receives ${percent(slice.topVendorShare)}% of the money in this slice.`
+        }, results.length),
+        sqlQuery: analysis.sqlQuery
+      };
+
+    } catch (e) {
+      if (e instanceof QuerySpecError) {
+        return { error: e.message, results: [] };
+      }
+      console.error('Vendor concentration error:', e);
+      return { error: 'Failed to measure vendor concentration', results: [] };
+    }
+  },
+});
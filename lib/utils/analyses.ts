@@ -0,0 +1,60 @@
+export interface SavedAnalysisPayload {
+  title: string;
+  question?: string;
+  sqlQuery: string;
+  entityContext?: string;
+  results: Record<string, unknown>[];
+  chartConfig?: Record<string, unknown> | null;
+}
+
+export interface SavedAnalysisResponse extends SavedAnalysisPayload {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnalysisRunResponse {
+  results: Record<string, unknown>[];
+  rowCount: number;
+  truncated: boolean;
+  nextCursor: string | null;
+  ranAt: string;
+}
+
+async function readJson<T>(response: Response, fallbackError: string): Promise<T> {
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || fallbackError);
+  }
+  return body;
+}
+
+/**
+ * Save a chat answer and return the stored analysis (with its shareable ID)
+ */
+export async function saveAnalysis(payload: SavedAnalysisPayload): Promise<SavedAnalysisResponse> {
+  const response = await fetch('/api/analyses', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const { analysis } = await readJson<{ analysis: SavedAnalysisResponse }>(response, 'Failed to save analysis');
+  return analysis;
+}
+
+export async function fetchAnalysis(id: string): Promise<SavedAnalysisResponse> {
+  const response = await fetch(`/api/analyses/${encodeURIComponent(id)}`);
+  const { analysis } = await readJson<{ analysis: SavedAnalysisResponse }>(response, 'Failed to load analysis');
+  return analysis;
+}
+
+/**
+ * Run a saved analysis's query again against current data
+ */
+export async function rerunAnalysis(id: string): Promise<AnalysisRunResponse> {
+  const response = await fetch(`/api/analyses/${encodeURIComponent(id)}/run`, { method: 'POST' });
+  return readJson<AnalysisRunResponse>(response, 'Failed to re-run analysis');
+}
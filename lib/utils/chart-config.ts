@@ -0,0 +1,64 @@
+/**
+ * Chart configuration rendered by AnalyticsChart
+ *
+ * generateChart asks the model for one; analysis tools that already know the shape of
+ * their result build it with fixedChartConfig instead of spending a model call.
+ */
+
+export type ChartType = 'bar' | 'line' | 'area' | 'pie';
+
+export interface ChartConfig {
+  type: ChartType;
+  title: string;
+  description: string;
+  xKey: string;
+  yKeys: string[];
+  colors?: Record<string, string>;
+  // How values are labelled: dollars (default), percentage points or plain numbers
+  valueFormat?: 'currency' | 'percent' | 'number';
+  // Stack bar series on one bar per x value, e.g. increases and decreases around zero
+  stacked?: boolean;
+  legend: boolean;
+  businessInsights: string[];
+  takeaway: string;
+  isTimeSeries: boolean;
+  trendAnalysis?: {
+    direction: 'increasing' | 'decreasing' | 'stable' | 'volatile';
+    changePercent?: number;
+    seasonality?: string;
+  };
+  alternativeCharts?: Array<{
+    type: ChartType;
+    reason: string;
+    suitability: number;
+    title: string;
+    analyticalPerspective: string;
+  }>;
+  dataQuality: {
+    completeness: number;
+    timeRange: string;
+    sampleSize: string;
+  };
+}
+
+// Colorblind-friendly palette, in series order
+export const CHART_PALETTE = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'];
+
+/**
+ * Chart config for a result whose columns are known up front
+ */
+export function fixedChartConfig(
+  config: Pick<ChartConfig, 'type' | 'title' | 'description' | 'xKey' | 'yKeys' | 'takeaway'>
+    & Partial<Pick<ChartConfig, 'colors' | 'valueFormat' | 'stacked' | 'businessInsights' | 'isTimeSeries'>>,
+  rowCount: number,
+  timeRange = '2022'
+): ChartConfig {
+  return {
+    colors: Object.fromEntries(config.yKeys.map((key, index) => [key, CHART_PALETTE[index % CHART_PALETTE.length]])),
+    legend: config.yKeys.length > 1,
+    businessInsights: [],
+    isTimeSeries: false,
+    dataQuality: { completeness: 100, timeRange, sampleSize: `${rowCount} rows` },
+    ...config
+  };
+}
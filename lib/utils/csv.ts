@@ -19,28 +19,33 @@ export interface CSVDownloadData {
     const csvHeaders = headers.map(header => `"${header}"`).join(',');
     
     // Create CSV data rows
-    const csvRows = data.map(row => {
-      return headers.map(header => {
-        const value = row[header];
-        
-        // Handle null/undefined
-        if (value === null || value === undefined) {
-          return '""';
-        }
-        
-        // Handle numbers (including currency)
-        if (typeof value === 'number') {
-          return value.toString();
-        }
-        
-        // Handle strings (escape quotes)
-        const stringValue = value.toString().replace(/"/g, '""');
-        return `"${stringValue}"`;
-      }).join(',');
-    });
+    const csvRows = data.map(row => formatCSVRow(row, headers));
   
     return [csvHeaders, ...csvRows].join('\n');
   }
+
+  /**
+   * Convert a single object to a CSV line (no trailing newline)
+   */
+  export function formatCSVRow(row: Record<string, unknown>, headers: string[]): string {
+    return headers.map(header => {
+      const value = row[header];
+      
+      // Handle null/undefined
+      if (value === null || value === undefined) {
+        return '""';
+      }
+      
+      // Handle numbers (including currency)
+      if (typeof value === 'number') {
+        return value.toString();
+      }
+      
+      // Handle strings (escape quotes)
+      const stringValue = String(value).replace(/"/g, '""');
+      return `"${stringValue}"`;
+    }).join(',');
+  }
   
   /**
    * Download CSV file to user's computer
@@ -106,10 +111,21 @@ export interface CSVDownloadData {
     return `texas_doge_${filename}_${timestamp}`;
   }
 
+export interface CSVDownloadProgress {
+  // Counted by the server before the download starts; null if it couldn't count
+  totalRows: number | null;
+}
+
 /**
- * Server-side CSV download via API
+ * Server-side CSV download via API.
+ * The server validates and counts the export, then the browser downloads the streamed
+ * CSV from the returned URL itself, so the file is never held in memory here.
  */
-export async function downloadCSVFromServer(sqlQuery: string, filename: string): Promise<void> {
+export async function downloadCSVFromServer(
+  sqlQuery: string,
+  filename: string,
+  onProgress?: (progress: CSVDownloadProgress) => void
+): Promise<void> {
   try {
     const response = await fetch('/api/download-csv', {
       method: 'POST',
@@ -127,23 +143,17 @@ export async function downloadCSVFromServer(sqlQuery: string, filename: string):
       throw new Error(errorData.error || 'Download failed');
     }
 
-    // Get the CSV content as blob
-    const blob = await response.blob();
-    
-    // Create download link
-    const url = window.URL.createObjectURL(blob);
+    const { downloadUrl, totalRows } = await response.json() as { downloadUrl: string; totalRows: number | null };
+    onProgress?.({ totalRows });
+
+    // Trigger download
     const link = document.createElement('a');
-    link.href = url;
+    link.href = downloadUrl;
     link.download = filename.endsWith('.csv') ? filename : `${filename}.csv`;
-    
-    // Trigger download
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     
-    // Cleanup
-    window.URL.revokeObjectURL(url);
-    
   } catch (error) {
     console.error('Server-side CSV download error:', error);
     throw error;
@@ -0,0 +1,54 @@
+export interface QueryResultsPage {
+  results: Record<string, unknown>[];
+  rowCount: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Fetch the next page of an executed query using the cursor from the previous page
+ */
+export async function fetchNextQueryPage(cursor: string): Promise<QueryResultsPage> {
+  const response = await fetch('/api/query-pages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ cursor }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to load more results');
+  }
+
+  return response.json();
+}
+
+export interface ExecutedQueryResult {
+  results: Record<string, unknown>[];
+  rowCount: number;
+  truncated: boolean;
+  totalRows: number | null;
+  nextCursor: string | null;
+}
+
+/**
+ * Execute a SQL query; the result carries the cursor for its next page
+ */
+export async function executeQuery(sqlQuery: string, originalQuestion?: string): Promise<ExecutedQueryResult> {
+  const response = await fetch('/api/execute-query', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sqlQuery, originalQuestion }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to execute the query');
+  }
+
+  return response.json();
+}
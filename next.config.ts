@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Native module used by the local data source - load it from node_modules at runtime
+  serverExternalPackages: ["@duckdb/node-api"],
 };
 
 export default nextConfig;
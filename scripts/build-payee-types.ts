@@ -0,0 +1,40 @@
+/**
+ * Rebuild the payeeTypes table from payeeCodes
+ *
+ *   npm run build:payee-types
+ *
+ * Reads every payee and writes one row per payee, so it runs here rather than inside a
+ * route's time limit. Run it before npm run build:vendor-clusters, which reads the types.
+ * Uses the same DATA_SOURCE settings as the app, from .env.local / .env.
+ */
+
+import { existsSync } from 'fs';
+
+for (const envFile of ['.env.local', '.env']) {
+  if (existsSync(envFile)) {
+    process.loadEnvFile(envFile);
+  }
+}
+
+async function main() {
+  // Imported after the env files are loaded, since the Supabase client reads them on load
+  const { buildPayeeTypes, savePayeeTypes } = await import('../lib/database/payee-types');
+
+  const { rows, payeeCount, typeCounts } = await buildPayeeTypes();
+  const counts = Object.entries(typeCounts)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => `${type} ${count.toLocaleString()}`)
+    .join(', ');
+  console.log(`Classified ${payeeCount.toLocaleString()} payees (${counts})`);
+
+  const { error } = await savePayeeTypes(rows);
+  if (error) {
+    throw new Error(`Failed to store payee types: ${error.message}`);
+  }
+  console.log('Stored payeeTypes');
+}
+
+main().catch(error => {
+  console.error('Payee type build failed:', error);
+  process.exitCode = 1;
+});
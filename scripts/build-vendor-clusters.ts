@@ -0,0 +1,37 @@
+/**
+ * Rebuild the payeeVendorClusters table from payeeCodes
+ *
+ *   npm run build:vendor-clusters
+ *
+ * Reads every payee and writes one row per payee, so it runs here rather than inside a
+ * route's time limit. Uses the same DATA_SOURCE settings as the app, from .env.local / .env.
+ */
+
+import { existsSync } from 'fs';
+
+for (const envFile of ['.env.local', '.env']) {
+  if (existsSync(envFile)) {
+    process.loadEnvFile(envFile);
+  }
+}
+
+async function main() {
+  // Imported after the env files are loaded, since the Supabase client reads them on load
+  const { buildVendorClusters, saveVendorClusters } = await import('../lib/database/vendor-clusters');
+
+  const { rows, ...stats } = await buildVendorClusters();
+  console.log(`Clustered ${stats.payeeCount.toLocaleString()} payees into ${stats.vendorCount.toLocaleString()} vendors`
+    + ` (${stats.mergedVendorCount.toLocaleString()} merged two or more payee IDs,`
+    + ` ${stats.unclusteredPayeeCount.toLocaleString()} individuals left unmerged)`);
+
+  const { error } = await saveVendorClusters(rows);
+  if (error) {
+    throw new Error(`Failed to store vendor clusters: ${error.message}`);
+  }
+  console.log('Stored payeeVendorClusters');
+}
+
+main().catch(error => {
+  console.error('Vendor cluster build failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,59 @@
+/**
+ * Write the committed reference snapshots from the database
+ *
+ *   npm run snapshot:reference-tables                      # every code table
+ *   npm run snapshot:reference-tables -- fundCodes ...     # only the named tables
+ *
+ * Each table is read through the app's data source (DATA_SOURCE settings from .env.local /
+ * .env) and written to lib/database/reference-snapshots/<table>.json, one entry per line in
+ * code order. A table that can't be read from the database is left as it is.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import type { ReferenceTableName } from '../lib/database/data-source';
+
+for (const envFile of ['.env.local', '.env']) {
+  if (existsSync(envFile)) {
+    process.loadEnvFile(envFile);
+  }
+}
+
+const SNAPSHOT_DIR = path.resolve(__dirname, '../lib/database/reference-snapshots');
+
+async function main() {
+  // Imported after the env files are loaded, since the Supabase client reads them on load
+  const { getReferenceData, REFERENCE_TABLE_COLUMNS } = await import('../lib/database/reference-data');
+  const allTables = Object.keys(REFERENCE_TABLE_COLUMNS) as ReferenceTableName[];
+  const requested = process.argv.slice(2);
+  const unknown = requested.filter(table => !(allTables as string[]).includes(table));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown table ${unknown.join(', ')} - expected one of ${allTables.join(', ')}`);
+  }
+  const tables = requested.length > 0 ? requested as ReferenceTableName[] : allTables;
+
+  const referenceData = await getReferenceData();
+  const loadErrors = new Map(referenceData.summary().map(table => [table.table, table.loadError]));
+  const failed: string[] = [];
+  for (const table of tables) {
+    if (referenceData.origin(table) !== 'database') {
+      failed.push(table);
+      console.error(`${table}: not written, the database read failed (${loadErrors.get(table)})`);
+      continue;
+    }
+
+    const entries = [...referenceData.entries(table)].sort((a, b) => a.code - b.code);
+    const lines = entries.map(entry => `  ${JSON.stringify({ code: entry.code, name: entry.name })}`);
+    await fs.writeFile(path.join(SNAPSHOT_DIR, `${table}.json`), `[\n${lines.join(',\n')}\n]\n`);
+    console.log(`${table}: ${entries.length.toLocaleString()} entries`);
+  }
+
+  if (failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Reference snapshot failed:', error);
+  process.exitCode = 1;
+});
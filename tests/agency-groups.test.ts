@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { AGENCY_GROUPS, expandAgencyGroups, findAgencyGroup, getAgencyGroup } from '@/lib/database/agency-groups';
+import { compileQuerySpec, expandResolvedEntities, QuerySpecError } from '@/lib/database/query-spec';
+
+describe('agency groups', () => {
+  it('finds a group by its aliases, with or without "all" and "the"', () => {
+    expect(findAgencyGroup('all UT schools')?.id).toBe('ut-system');
+    expect(findAgencyGroup('the A&M system')?.id).toBe('tamu-system');
+    expect(findAgencyGroup('Courts of Appeals')?.id).toBe('courts-of-appeals');
+  });
+
+  it('leaves partial names and the system offices to the agency matcher', () => {
+    expect(findAgencyGroup('University of Texas System')).toBeUndefined();
+    expect(findAgencyGroup('UT')).toBeUndefined();
+  });
+
+  it('expands groups to the union of their codes', () => {
+    const { codes, unknownIds } = expandAgencyGroups(['judiciary', 'courts-of-appeals']);
+
+    expect(unknownIds).toEqual([]);
+    expect(codes).toHaveLength(getAgencyGroup('judiciary')!.codes.length);
+    expect(codes).toEqual(expect.arrayContaining([201, 221, 235, 243]));
+  });
+
+  it('includes every university system in higher education', () => {
+    const higherEducation = new Set(getAgencyGroup('higher-education')!.codes);
+
+    AGENCY_GROUPS.filter(group => group.kind === 'system')
+      .flatMap(group => group.codes)
+      .forEach(code => expect(higherEducation.has(code)).toBe(true));
+  });
+
+  it('reports unknown group IDs instead of dropping them', () => {
+    expect(expandAgencyGroups(['transportation', 'state-colleges'])).toEqual({ codes: [601, 608], unknownIds: ['state-colleges'] });
+  });
+
+  it('merges group codes into agencyIds and rejects unknown groups', () => {
+    expect(expandResolvedEntities({ agencyIds: [601, 305], agencyGroupIds: ['transportation'] }))
+      .toEqual({ agencyIds: [601, 305, 608] });
+    expect(() => expandResolvedEntities({ agencyGroupIds: ['state-colleges'] }))
+      .toThrow(new QuerySpecError('Unknown agency group: state-colleges'));
+  });
+
+  it('filters compiled queries on every member agency', () => {
+    const { sqlQuery } = compileQuerySpec({ dimensions: ['agency'], measures: ['sum'], filters: {} }, { agencyGroupIds: ['transportation'] });
+
+    expect(sqlQuery).toContain('p."Agency_CD" IN (601, 608)');
+  });
+});
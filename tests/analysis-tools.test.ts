@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeVendorConcentrationTool,
+  benfordAnalysisTool,
+  comparePeriodsTool,
+  detectAnomaliesTool,
+  detectDuplicatePaymentsTool,
+  executeAnalyticsQueryTool
+} from '@/lib/tools';
+import { getDataSource } from '@/lib/database/data-source';
+import { totalDuplicateAmounts, type DuplicateGroup } from '@/lib/database/duplicate-payments';
+import { readQueryCursor } from '@/lib/database/query-pages';
+import { runTool, withDataSource, withoutTables } from './helpers';
+
+// Smoke tests of the tools that answer without a model call, against tests/fixtures/local-data.
+// The fixture plants an outlier, a double payment, one vendor paid under two payee IDs and
+// a monthly rent payment.
+
+describe('executeAnalyticsQuery', () => {
+  it('runs a validated query and reports the cost gate decision', async () => {
+    const output = await runTool(executeAnalyticsQueryTool, {
+      sqlQuery: 'SELECT p."Agency_CD", SUM(p."Amount") AS total FROM "payments" p GROUP BY p."Agency_CD" ORDER BY total DESC'
+    });
+
+    expect(output.error).toBeUndefined();
+    expect(output.results).toHaveLength(3);
+    expect(output.costGate).toMatchObject({ decision: 'allow' });
+  });
+
+  it('answers a repeated query from the cache with the original run\'s report', async () => {
+    const sqlQuery = 'SELECT p."Payee_id", p."Amount" FROM "payments" p WHERE p."Agency_CD" = 601 ORDER BY p."key"';
+    const first = await runTool(executeAnalyticsQueryTool, { sqlQuery, maxRows: 5 });
+    // Same query with another alias and layout
+    const repeated = await runTool(executeAnalyticsQueryTool, {
+      sqlQuery: sqlQuery.replace('"payments" p', '"payments" pay').replace(/\bp\./g, 'pay.').replace(/ WHERE /, '\nWHERE '),
+      maxRows: 5
+    });
+
+    expect(repeated.cache).toMatchObject({ hit: true });
+    expect(repeated.results).toEqual(first.results);
+    expect(repeated.costGate).toEqual(first.costGate);
+    expect(repeated).toMatchObject({ truncated: true, limitApplied: 5, totalRows: first.totalRows });
+    // The next page continues the query that ran, not the re-worded one
+    expect(readQueryCursor(repeated.nextCursor as string).sqlQuery).toBe(sqlQuery);
+  });
+
+  it('rejects queries over tables outside the schema', async () => {
+    const output = await runTool(executeAnalyticsQueryTool, { sqlQuery: 'SELECT * FROM "users"' });
+
+    expect(output.error).toMatch(/Query rejected/);
+  });
+});
+
+describe('detectAnomalies', () => {
+  it('flags the planted outlier against its agency and object peers', async () => {
+    const output = await runTool(detectAnomaliesTool, { filters: { agencyIds: [529], comptrollerIds: [7300] } });
+    const anomalies = output.anomalies as Array<{ amount: number; payeeId: number }>;
+
+    expect(output.error).toBeUndefined();
+    expect(anomalies[0]).toMatchObject({ amount: 250000, payeeId: 13 });
+  });
+});
+
+describe('detectDuplicatePayments', () => {
+  it('groups same-payee and same-vendor repeats and skips confidential payees', async () => {
+    const output = await runTool(detectDuplicatePaymentsTool, {});
+    const groups = output.groups as Array<{ pattern: string; payeeId: number; amount: number }>;
+
+    expect(output.error).toBeUndefined();
+    expect(groups).toContainEqual(expect.objectContaining({ pattern: 'same_payee_window', payeeId: 13, amount: 18432.17 }));
+    expect(groups).toContainEqual(expect.objectContaining({ pattern: 'related_payees', amount: 9876 }));
+    expect(groups.some(group => group.payeeId === 11)).toBe(false);
+  });
+
+  it('keeps repeated rent out of the exposure', async () => {
+    const output = await runTool(detectDuplicatePaymentsTool, { patterns: ['repeated_amount'], filters: { agencyIds: [601] } });
+
+    expect(output.groups).toContainEqual(expect.objectContaining({ payeeId: 15, amount: 4250, paymentCount: 12, amountBeyondFirst: 46750 }));
+    expect(output.exposureByConfidence).toEqual({ high: 0, medium: 0 });
+    expect(output.reviewCandidates).toMatchObject({ amount: 46750 });
+  });
+
+  it('counts a payment in several groups once', () => {
+    const group = (confidence: DuplicateGroup['confidence'], paymentKeys: number[]) => ({
+      pattern: confidence === 'low' ? 'repeated_amount' : 'same_payee_window',
+      confidence,
+      amount: 100,
+      paymentCount: paymentKeys.length,
+      amountBeyondFirst: (paymentKeys.length - 1) * 100,
+      paymentKeys
+    }) as DuplicateGroup;
+
+    // The repeated amount group holds both windows' payments and one more
+    expect(totalDuplicateAmounts([group('low', [1, 2, 3, 4, 5]), group('high', [1, 2]), group('medium', [3, 4])]))
+      .toEqual({ exposure: { high: 100, medium: 100 }, reviewAmount: 100 });
+  });
+
+  it('skips related payee IDs until the vendor clusters are built', async () => {
+    const source = withoutTables(await getDataSource(), ['payeeVendorClusters']);
+
+    await withDataSource(source, async () => {
+      const output = await runTool(detectDuplicatePaymentsTool, {});
+      const groups = output.groups as Array<{ pattern: string; payeeId: number }>;
+
+      expect(output.error).toBeUndefined();
+      expect(output.skippedPatterns).toEqual(['related_payees']);
+      expect(groups).toContainEqual(expect.objectContaining({ pattern: 'same_payee_window', payeeId: 13 }));
+      expect(groups.some(group => group.pattern === 'related_payees')).toBe(false);
+
+      expect((await runTool(detectDuplicatePaymentsTool, { patterns: ['related_payees'] })).error).toMatch(/vendor clusters/);
+    });
+  });
+});
+
+describe('analyzeVendorConcentration', () => {
+  it('computes an HHI for the slice and ranks its vendors', async () => {
+    const output = await runTool(analyzeVendorConcentrationTool, { filters: { agencyIds: [529] } });
+    const summary = output.summary as { hhi: number; vendorCount: number };
+
+    expect(output.error).toBeUndefined();
+    expect(summary.hhi).toBeGreaterThan(0);
+    expect(summary.hhi).toBeLessThanOrEqual(10000);
+    expect(output.results.length).toBe(summary.vendorCount);
+    expect(output.chartConfig).toBeDefined();
+  });
+
+  it('names vendors by their cluster and falls back to payees without the cluster table', async () => {
+    const vendors = async () => {
+      const output = await runTool(analyzeVendorConcentrationTool, { limit: 100 });
+      expect(output.error).toBeUndefined();
+      return output.results as Array<{ vendor: string; vendor_id: number }>;
+    };
+
+    expect(await vendors()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ vendor_id: 10, vendor: 'Dell Inc.' }),
+      expect.objectContaining({ vendor_id: 13, vendor: 'H E B GROCERY CO' })
+    ]));
+
+    await withDataSource(withoutTables(await getDataSource(), ['payeeVendorClusters']), async () => {
+      expect(await vendors()).toEqual(expect.arrayContaining([
+        expect.objectContaining({ vendor_id: 10, vendor: 'DELL MARKETING LP' }),
+        expect.objectContaining({ vendor_id: 12, vendor: 'Dell Inc.' })
+      ]));
+    });
+  });
+});
+
+describe('benfordAnalysis', () => {
+  it('scores first digits over all payments', async () => {
+    const output = await runTool(benfordAnalysisTool, {});
+    const summary = output.summary as { sampleSize: number; conformity: string };
+
+    expect(output.error).toBeUndefined();
+    expect(summary.sampleSize).toBe(349);
+    expect(output.results).toHaveLength(9);
+    expect(output.chartConfig).toMatchObject({ valueFormat: 'percent' });
+  });
+});
+
+describe('comparePeriods', () => {
+  it('compares two quarters by agency', async () => {
+    const output = await runTool(comparePeriodsTool, {
+      dimension: 'agency',
+      baselinePeriod: { start: '2022-01-01', end: '2022-03-31' },
+      currentPeriod: { start: '2022-04-01', end: '2022-06-30' }
+    });
+    const summary = output.summary as { memberCount: number; baselineTotal: number; currentTotal: number };
+
+    expect(output.error).toBeUndefined();
+    expect(summary.memberCount).toBe(3);
+    expect(summary.baselineTotal).toBeGreaterThan(0);
+    expect(output.chartConfig).toMatchObject({ stacked: true });
+  });
+
+  it('rejects a period that ends before it starts', async () => {
+    const output = await runTool(comparePeriodsTool, {
+      dimension: 'agency',
+      baselinePeriod: { start: '2022-05-01', end: '2022-04-01' },
+      currentPeriod: { start: '2022-04-01', end: '2022-06-30' }
+    });
+
+    expect(output.error).toMatch(/ends .* before it starts/);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { getDataSource, type QueryRow } from '@/lib/database/data-source';
+import { PAYMENTS_MONTHLY_SUMMARY, rewriteToMonthlySummary } from '@/lib/database/cost-gate';
+
+async function runQuery(sqlQuery: string): Promise<QueryRow[]> {
+  const { data, error } = await (await getDataSource()).executeReadQuery(sqlQuery);
+  expect(error, sqlQuery).toBeNull();
+  // Cents are enough; sums of floats differ in the last digits
+  return (data ?? []).map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [
+    key,
+    typeof value === 'number' || typeof value === 'bigint' ? Math.round(Number(value) * 100) / 100 : value
+  ])));
+}
+
+describe('rewriteToMonthlySummary', () => {
+  it.each([
+    ['totals by a dimension', 'SELECT p."Agency_CD", SUM(p."Amount") AS total FROM "payments" p GROUP BY p."Agency_CD" ORDER BY p."Agency_CD"'],
+    ['counts by month', `SELECT DATE_TRUNC('month', p."date") AS month, COUNT(*) AS payments FROM "payments" p
+      WHERE p."date" >= '2022-01-01' AND p."date" < '2022-07-01' GROUP BY DATE_TRUNC('month', p."date") ORDER BY month`],
+    ['payment key counts', 'SELECT p."CatCode", COUNT(p."key") AS payments FROM "payments" p GROUP BY p."CatCode" ORDER BY p."CatCode"'],
+    ['aggregate-only output', 'SELECT SUM(p."Amount") AS total, COUNT(*) AS payments FROM "payments" p WHERE p."Agency_CD" = 601']
+  ])('answers %s from the summary with the same results', async (_, sqlQuery) => {
+    const rewritten = rewriteToMonthlySummary(sqlQuery);
+
+    expect(rewritten).toContain(PAYMENTS_MONTHLY_SUMMARY);
+    expect(await runQuery(rewritten!)).toEqual(await runQuery(sqlQuery));
+  });
+
+  it.each([
+    ['row-level queries', 'SELECT p."Agency_CD" FROM "payments" p'],
+    ['non-aggregate output without GROUP BY', 'SELECT p."Agency_CD", 1 AS one FROM "payments" p WHERE p."Agency_CD" = 601'],
+    ['COUNT of a dimension column', 'SELECT p."Agency_CD", COUNT(p."CatCode") FROM "payments" p GROUP BY p."Agency_CD"'],
+    ['COUNT(DISTINCT ...)', 'SELECT COUNT(DISTINCT p."Agency_CD") FROM "payments" p'],
+    ['other aggregates', 'SELECT p."Agency_CD", AVG(p."Amount") FROM "payments" p GROUP BY p."Agency_CD"'],
+    ['MIN and MAX of a dimension', 'SELECT MAX(p."Agency_CD") FROM "payments" p'],
+    ['window aggregates', 'SELECT p."Agency_CD", SUM(p."Amount") OVER () FROM "payments" p GROUP BY p."Agency_CD", p."Amount"'],
+    ['dimensions outside GROUP BY', 'SELECT p."Agency_CD", p."CatCode", SUM(p."Amount") FROM "payments" p GROUP BY p."Agency_CD"'],
+    ['non-summary columns', 'SELECT p."Payee_id", SUM(p."Amount") FROM "payments" p GROUP BY p."Payee_id"'],
+    ['part-month date ranges', `SELECT SUM(p."Amount") FROM "payments" p WHERE p."date" >= '2022-01-15'`]
+  ])('leaves %s alone', (_, sqlQuery) => {
+    expect(rewriteToMonthlySummary(sqlQuery)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { AGENCY_ABBREVIATIONS, createEntityMatcher, normalizeEntityText } from '@/lib/tools/entityMatcher';
+import { matcherCandidates } from '@/lib/tools/lookupCandidates';
+
+const AGENCIES = [
+  { code: 320, name: 'Texas Workforce Commission' },
+  { code: 529, name: 'Health and Human Services Commission' },
+  { code: 537, name: 'Department of State Health Services' },
+  { code: 601, name: 'Department of Transportation' },
+  { code: 701, name: 'Texas Education Agency' },
+  { code: 711, name: 'Texas A&M University' },
+  { code: 721, name: 'University of Texas at Austin' },
+  { code: 729, name: 'University of Texas Southwestern Medical Center' },
+  { code: 744, name: 'University of Texas Health Science Center at Houston' }
+];
+
+const matcher = createEntityMatcher(AGENCIES, { abbreviations: AGENCY_ABBREVIATIONS });
+
+describe('entity matcher', () => {
+  it('normalizes punctuation and case', () => {
+    expect(normalizeEntityText("Texas A&M University's")).toBe('texas am universitys');
+  });
+
+  it('matches numeric codes, including zero-padded ones', () => {
+    expect(matcher.match('0601')).toEqual({
+      matches: [{ code: 601, name: 'Department of Transportation', score: 1, matchType: 'code' }],
+      ambiguous: false
+    });
+  });
+
+  it('resolves dictionary abbreviations and acronyms of the name', () => {
+    expect(matcher.match('TxDOT').matches).toEqual([expect.objectContaining({ code: 601, matchType: 'abbreviation' })]);
+
+    // Not in the dictionary: Department of State Health Services
+    const acronym = matcher.match('dshs');
+    expect(acronym.matches[0]).toMatchObject({ code: 537, matchType: 'abbreviation', score: 0.9 });
+    expect(acronym.ambiguous).toBe(false);
+  });
+
+  it('ranks exact names first, then names sharing the most words', () => {
+    const exact = matcher.match('texas education agency');
+    expect(exact.matches[0]).toMatchObject({ code: 701, matchType: 'exact', score: 1 });
+    expect(exact.ambiguous).toBe(false);
+
+    const { matches } = matcher.match('university of texas');
+    expect(matches.slice(0, 4).map(match => match.code)).toEqual([721, 711, 729, 744]);
+    expect(matches.map(match => match.score)).toEqual([...matches.map(match => match.score)].sort((a, b) => b - a));
+  });
+
+  it('tolerates prefixes and misspellings', () => {
+    const result = matcher.match('transportaton');
+
+    expect(result.matches[0]).toMatchObject({ code: 601, matchType: 'fuzzy' });
+  });
+
+  it('leaves close calls to the model', () => {
+    // Both health agencies score over 0.85, less than the 0.1 margin apart
+    const health = matcher.match('health services');
+    expect(health.ambiguous).toBe(true);
+    expect(health.matches.slice(0, 2).map(match => match.code)).toEqual([537, 529]);
+
+    // Four University of Texas campuses are near the top
+    expect(matcher.match('university of texas').ambiguous).toBe(true);
+  });
+
+  it('is ambiguous when nothing matches', () => {
+    expect(matcher.match('   ')).toEqual({ matches: [], ambiguous: true });
+    expect(matcher.match('zzzz qqqq')).toEqual({ matches: [], ambiguous: true });
+  });
+
+  it('returns at most limit matches, best first', () => {
+    const { matches } = matcher.match('texas', 2);
+
+    expect(matches).toHaveLength(2);
+    expect(matches[0].score).toBeGreaterThanOrEqual(matches[1].score);
+  });
+
+  it('turns matches into candidates with a confidence and reason', () => {
+    const candidates = matcherCandidates(matcher.match('university of texas').matches.slice(0, 2));
+
+    expect(candidates).toEqual([
+      { code: 721, name: 'University of Texas at Austin', confidence: 'high', reason: 'Matched by name similarity (score 0.93)' },
+      { code: 711, name: 'Texas A&M University', confidence: 'high', reason: 'Matched by name similarity (score 0.913)' }
+    ]);
+    expect(matcherCandidates(matcher.match('dot').matches)).toEqual([
+      { code: 601, name: 'Department of Transportation', confidence: 'high', reason: 'Matched by abbreviation (score 0.98)' }
+    ]);
+  });
+});
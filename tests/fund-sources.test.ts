@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getDataSource, type DataSource } from '@/lib/database/data-source';
+import { classifyFundSource, fundSourceExpression, getFundSourceCodes, type FundSource } from '@/lib/database/fund-sources';
+import { compileQuerySpec, loadCompileOptions } from '@/lib/database/query-spec';
+import { reloadReferenceData } from '@/lib/database/reference-data';
+import { withDataSource } from './helpers';
+
+// The database with applicationFundCodes rows added or replaced
+function withApplicationFunds(source: DataSource, rows: Array<{ Appd_Fund_Num: number; Appd_Fund_Num_Name: string }>): DataSource {
+  return {
+    name: source.name,
+    executeReadQuery: sqlQuery => source.executeReadQuery(sqlQuery),
+    explainQuery: sqlQuery => source.explainQuery(sqlQuery),
+    searchPayees: (searchTerm, limit) => source.searchPayees(searchTerm, limit),
+    fetchReferenceTable: async table => (table === 'applicationFundCodes' ? { data: rows, error: null } : source.fetchReferenceTable(table))
+  };
+}
+
+describe('fund sources', () => {
+  afterEach(async () => {
+    await reloadReferenceData();
+  });
+
+  it.each<[number, string, FundSource]>([
+    [1, '0001 - General Revenue Fund', 'general_revenue'],
+    [2, '0002 - Available School Fund', 'general_revenue'],
+    [19, '0019 - Gr Acct-Vital Statistics', 'gr_dedicated'],
+    [92, '0092 - Gr Acct-Federal Disaster', 'federal'],
+    [148, '0148 - Gr Acct-Fed Health/Ed/Welfare', 'federal'],
+    [325, '0325 - Coronavirus Relief Fund', 'federal'],
+    [938, '0938 - Unemployment Compensation Fund - Federal', 'other'],
+    [6, '0006 - State Highway Fund', 'other']
+  ])('classifies fund %i (%s) as %s', (code, name, source) => {
+    expect(classifyFundSource({ code, name })).toBe(source);
+  });
+
+  it('classifies the application funds loaded through the reference data service', async () => {
+    expect(await getFundSourceCodes()).toEqual({ general_revenue: [1], gr_dedicated: [], federal: [92], other: [6] });
+
+    const funds = [
+      { Appd_Fund_Num: 1, Appd_Fund_Num_Name: '0001 - General Revenue Fund' },
+      { Appd_Fund_Num: 6, Appd_Fund_Num_Name: '0006 - State Highway Fund' },
+      { Appd_Fund_Num: 9001, Appd_Fund_Num_Name: '9001 - Gr Acct-New Dedicated Account' }
+    ];
+    await withDataSource(withApplicationFunds(await getDataSource(), funds), async () => {
+      await reloadReferenceData();
+      expect(await getFundSourceCodes()).toEqual({ general_revenue: [1], gr_dedicated: [9001], federal: [], other: [6] });
+    });
+  });
+
+  it('splits every payment into one source', async () => {
+    const dataSource = await getDataSource();
+    const { sqlQuery } = compileQuerySpec({ dimensions: ['fund_source'], measures: ['sum'], filters: {} }, {}, await loadCompileOptions());
+    const { data, error } = await dataSource.executeReadQuery(sqlQuery);
+    const { data: total } = await dataSource.executeReadQuery('SELECT SUM("Amount") AS total FROM "payments"');
+
+    expect(error, sqlQuery).toBeNull();
+    expect(data?.map(row => row.fund_source).sort()).toEqual(['Federal', 'General Revenue', 'Other']);
+    expect(data?.reduce((sum, row) => sum + Number(row.total_amount), 0)).toBeCloseTo(Number(total?.[0].total));
+  });
+
+  it('needs the fund source codes in the compile options', () => {
+    expect(() => compileQuerySpec({ dimensions: ['fund_source'], measures: ['sum'], filters: {} })).toThrow(/fundSourceCodes/);
+    expect(fundSourceExpression({ general_revenue: [], gr_dedicated: [], federal: [], other: [6] })).toBe("CAST('Other' AS TEXT)");
+  });
+});
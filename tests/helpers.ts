@@ -0,0 +1,69 @@
+import type { ToolExecutionOptions } from 'ai';
+import { getDataSource, setDataSource, type DataSource } from '@/lib/database/data-source';
+
+// Loose view of a tool result, for reading fields shared by only some of its return shapes
+export type ToolOutput = Record<string, unknown> & {
+  error?: string;
+  result?: string;
+  results: Array<Record<string, unknown>>;
+};
+
+/**
+ * Run a chat tool's execute function the way the AI SDK would
+ */
+export async function runTool<A>(
+  chatTool: { execute?: (args: A, options: ToolExecutionOptions) => PromiseLike<unknown> },
+  args: A
+): Promise<ToolOutput> {
+  return await chatTool.execute!(args, { toolCallId: 'test', messages: [] }) as ToolOutput;
+}
+
+/**
+ * The data source as it looks before the given tables are built: queries that mention
+ * them fail like a missing relation would
+ */
+export function withoutTables(source: DataSource, tables: string[]): DataSource {
+  const missingTable = (sqlQuery: string) => tables.find(table => sqlQuery.includes(`"${table}"`));
+  return {
+    name: source.name,
+    executeReadQuery: async sqlQuery => {
+      const table = missingTable(sqlQuery);
+      return table ? { data: null, error: { message: `relation "${table}" does not exist` } } : source.executeReadQuery(sqlQuery);
+    },
+    explainQuery: async sqlQuery => {
+      const table = missingTable(sqlQuery);
+      return table ? { plan: null, error: { message: `relation "${table}" does not exist` } } : source.explainQuery(sqlQuery);
+    },
+    searchPayees: (searchTerm, limit) => source.searchPayees(searchTerm, limit),
+    fetchReferenceTable: table => source.fetchReferenceTable(table)
+  };
+}
+
+/**
+ * The data source with the given payees missing from a per-payee table, like payees
+ * loaded since the table was last built
+ */
+export function withoutPayeeRows(source: DataSource, payeeTable: string, payeeIds: number[]): DataSource {
+  const partialTable = `(SELECT * FROM "${payeeTable}" WHERE "Payee_id" NOT IN (${payeeIds.join(', ')}))`;
+  const partial = (sqlQuery: string) => sqlQuery.replaceAll(`"${payeeTable}"`, partialTable);
+  return {
+    name: source.name,
+    executeReadQuery: sqlQuery => source.executeReadQuery(partial(sqlQuery)),
+    explainQuery: sqlQuery => source.explainQuery(partial(sqlQuery)),
+    searchPayees: (searchTerm, limit) => source.searchPayees(searchTerm, limit),
+    fetchReferenceTable: table => source.fetchReferenceTable(table)
+  };
+}
+
+/**
+ * Run a test body against another data source, restoring the fixture source afterwards
+ */
+export async function withDataSource<T>(source: DataSource, body: () => Promise<T>): Promise<T> {
+  const previous = await getDataSource();
+  setDataSource(source);
+  try {
+    return await body();
+  } finally {
+    setDataSource(previous);
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getDataSource } from '@/lib/database/data-source';
+import { compileQuerySpec, loadCompileOptions } from '@/lib/database/query-spec';
+import { validateAnalyticsSql } from '@/lib/database/sql-validator';
+import { getReferenceData } from '@/lib/database/reference-data';
+
+describe('local data source', () => {
+  it('runs quoted PostgreSQL-style queries over the snapshot', async () => {
+    const dataSource = await getDataSource();
+    const { data, error } = await dataSource.executeReadQuery(
+      'SELECT p."Agency_CD", COUNT(*) AS payment_count FROM "payments" p GROUP BY p."Agency_CD" ORDER BY p."Agency_CD"'
+    );
+
+    expect(error).toBeNull();
+    expect(data?.map(row => row.Agency_CD)).toEqual([529, 601, 720]);
+    // BigInt counts come back as plain numbers, like Supabase JSON
+    expect(typeof data?.[0].payment_count).toBe('number');
+  });
+
+  it('estimates scanned rows with EXPLAIN', async () => {
+    const dataSource = await getDataSource();
+    const { plan, error } = await dataSource.explainQuery('SELECT SUM(p."Amount") FROM "payments" p');
+
+    expect(error).toBeNull();
+    expect(plan?.scannedRows).toBeGreaterThan(0);
+  });
+
+  it('searches payee names case-insensitively', async () => {
+    const dataSource = await getDataSource();
+    const { data, error } = await dataSource.searchPayees('dell', 10);
+
+    expect(error).toBeNull();
+    expect(data?.map(match => match.payee_name)).toEqual(['Dell Inc.', 'DELL MARKETING LP']);
+  });
+
+  it('loads code tables from the snapshot instead of the committed fallback', async () => {
+    const referenceData = await getReferenceData();
+
+    expect(referenceData.origin('agencyCodes')).toBe('database');
+    expect(referenceData.findByCode('agencyCodes', 529)?.name).toBe('Health and Human Services Commission');
+    expect(referenceData.findByName('fundCodes', 'state highway fund')?.code).toBe(6);
+  });
+});
+
+describe('compiled query specs', () => {
+  it('validate and run for every lookup dimension', async () => {
+    const dataSource = await getDataSource();
+    const dimensions = ['agency', 'category', 'fund', 'fund_source', 'treasury_fund', 'appropriation', 'comptroller', 'payee', 'vendor', 'payee_type', 'month'] as const;
+    const compileOptions = await loadCompileOptions();
+
+    for (const dimension of dimensions) {
+      const { sqlQuery } = compileQuerySpec({
+        dimensions: [dimension],
+        measures: ['sum', 'count'],
+        filters: { dateRange: { start: '2022-01-01', end: '2022-06-30' } }
+      }, {}, compileOptions);
+      expect(validateAnalyticsSql(sqlQuery).isValid, sqlQuery).toBe(true);
+
+      const { data, error } = await dataSource.executeReadQuery(sqlQuery);
+      expect(error, sqlQuery).toBeNull();
+      expect(data?.length, sqlQuery).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getDataSource, type DataSource } from '@/lib/database/data-source';
+import {
+  BUILD_RETRY_DELAY_MS,
+  buildPayeeSearchIndex,
+  getPayeeSearchIndex,
+  peekPayeeSearchIndex
+} from '@/lib/database/payee-search-index';
+import { withDataSource, withoutTables } from './helpers';
+
+// Records every query sent to the source
+function recordingQueries(source: DataSource, queries: string[]): DataSource {
+  return {
+    name: source.name,
+    executeReadQuery: sqlQuery => {
+      queries.push(sqlQuery);
+      return source.executeReadQuery(sqlQuery);
+    },
+    explainQuery: sqlQuery => source.explainQuery(sqlQuery),
+    searchPayees: (searchTerm, limit) => source.searchPayees(searchTerm, limit),
+    fetchReferenceTable: table => source.fetchReferenceTable(table)
+  };
+}
+
+// Let a background build started by peekPayeeSearchIndex settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('payee search index', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('finds payees by word prefix, misspelling and ID', async () => {
+    const index = await buildPayeeSearchIndex();
+
+    expect(index.search('dell').hits.map(hit => hit.payeeId)).toEqual(expect.arrayContaining([10, 12]));
+    expect(index.search('gartnr').hits[0]).toMatchObject({ payeeId: 19, matchType: 'fuzzy' });
+    expect(index.findById(16)?.payeeName).toBe('City of Austin');
+  });
+
+  it('ranks by match alone without aggregating payments when payeeTotals is missing', async () => {
+    const queries: string[] = [];
+    const source = recordingQueries(withoutTables(await getDataSource(), ['payeeTotals']), queries);
+
+    const index = await withDataSource(source, buildPayeeSearchIndex);
+
+    expect(index.search('john smith').hits.map(hit => hit.totalPaid)).toEqual([0, 0]);
+    expect(queries.filter(sqlQuery => sqlQuery.includes('"payments"'))).toEqual([]);
+  });
+
+  it('falls back to searchPayees after a failed build without retrying until the delay passes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const queries: string[] = [];
+    const source = recordingQueries(withoutTables(await getDataSource(), ['payeeCodes']), queries);
+
+    await withDataSource(source, async () => {
+      expect(peekPayeeSearchIndex()).toBeNull();
+      await settle();
+      const failedBuildQueries = queries.length;
+      expect(failedBuildQueries).toBeGreaterThan(0);
+
+      vi.advanceTimersByTime(BUILD_RETRY_DELAY_MS - 1000);
+      expect(peekPayeeSearchIndex()).toBeNull();
+      await settle();
+      expect(queries).toHaveLength(failedBuildQueries);
+    });
+
+    vi.advanceTimersByTime(1000);
+    expect(peekPayeeSearchIndex()).toBeNull();
+    const index = await getPayeeSearchIndex();
+    expect(peekPayeeSearchIndex()).toBe(index);
+  });
+});
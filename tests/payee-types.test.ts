@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { getDataSource } from '@/lib/database/data-source';
+import { buildPayeeTypes, classifyPayee, payeeTypesAvailable, type PayeeType } from '@/lib/database/payee-types';
+import { compileQuerySpec, QuerySpecError, type QuerySpec } from '@/lib/database/query-spec';
+import { withDataSource, withoutPayeeRows, withoutTables } from './helpers';
+
+async function typeTotals(payeeTypes: boolean, filters: QuerySpec['filters'] = {}): Promise<Record<string, number>> {
+  const { sqlQuery } = compileQuerySpec({ dimensions: ['payee_type'], measures: ['sum'], filters }, {}, { payeeTypes });
+  const { data, error } = await (await getDataSource()).executeReadQuery(sqlQuery);
+  expect(error, sqlQuery).toBeNull();
+  return Object.fromEntries((data ?? []).map(row => [row.payee_type, Number(row.total_amount)]));
+}
+
+async function paymentTotal(): Promise<number> {
+  const { data } = await (await getDataSource()).executeReadQuery('SELECT SUM("Amount") AS total FROM "payments"');
+  return Number(data?.[0].total);
+}
+
+describe('classifyPayee', () => {
+  it.each<[string, PayeeType]>([
+    ['DELL MARKETING LP', 'company'],
+    ['Acme Property Management LLC', 'company'],
+    ['ACME CONSULTING SERVICES', 'company'],
+    ['Goodwill Industries of Central Texas', 'nonprofit'],
+    ['AUSTIN ISD EDUCATION FOUNDATION', 'nonprofit'],
+    ['ROUND ROCK ISD', 'school_district'],
+    ['University of Texas at Austin', 'higher_education'],
+    ['HARRIS COUNTY HOSPITAL DISTRICT', 'special_district'],
+    ['TRAVIS COUNTY', 'county'],
+    ['COUNTY LINE LLC', 'company'],
+    ['City of Austin', 'city'],
+    ['TEXAS WORKFORCE COMMISSION', 'government'],
+    ['Confidential', 'individual']
+  ])('tags %s as %s', (name, type) => {
+    expect(classifyPayee(name)).toBe(type);
+  });
+
+  it.each([
+    'John Smith',
+    'JOHN A SMITH',
+    'SMITH, JOHN A',
+    'Mary-Ann O\'Brien',
+    'ROBERT E LEE JR'
+  ])('tags the person name %s as an individual', name => {
+    expect(classifyPayee(name)).toBe('individual');
+  });
+
+  it.each([
+    'AUSTIN ENERGY',
+    'BLUE CROSS',
+    'H E B',
+    'SMITH AND JONES',
+    'WALMART',
+    'ACME 2000',
+    'JOHN PAUL GEORGE RINGO'
+  ])('leaves the name-shaped organization %s as other', name => {
+    expect(classifyPayee(name)).toBe('other');
+  });
+});
+
+describe('payee types', () => {
+  it('matches the committed fixture, which the build script wrote', async () => {
+    const { rows, typeCounts } = await buildPayeeTypes();
+    const { data } = await (await getDataSource()).executeReadQuery('SELECT * FROM "payeeTypes" ORDER BY "Payee_id"');
+
+    expect(data?.map(row => ({ ...row, Payee_id: Number(row.Payee_id) })))
+      .toEqual([...rows].sort((a, b) => a.Payee_id - b.Payee_id));
+    // Both John Smiths and the pooled "Confidential" payee
+    expect(typeCounts.individual).toBe(3);
+  });
+
+  it('counts payees missing from the type table as other', async () => {
+    const total = await paymentTotal();
+    const complete = await typeTotals(true);
+
+    await withDataSource(withoutPayeeRows(await getDataSource(), 'payeeTypes', [16, 17]), async () => {
+      const totals = await typeTotals(true);
+
+      expect(Object.values(totals).reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(total);
+      expect(totals).not.toHaveProperty('city');
+      expect(totals.other).toBeCloseTo((complete.other ?? 0) + complete.city + complete.school_district);
+
+      const other = await typeTotals(true, { payeeTypes: ['other'] });
+      expect(other.other).toBeCloseTo(totals.other);
+    });
+  });
+
+  it('treats every payee as other until the type table is built', async () => {
+    const total = await paymentTotal();
+
+    await withDataSource(withoutTables(await getDataSource(), ['payeeTypes']), async () => {
+      expect(await payeeTypesAvailable()).toBe(false);
+      expect(await typeTotals(false)).toEqual({ other: expect.closeTo(total) });
+      expect(() => compileQuerySpec({ dimensions: [], measures: ['sum'], filters: { payeeTypes: ['company'] } }, {}, { payeeTypes: false }))
+        .toThrow(QuerySpecError);
+    });
+    expect(await payeeTypesAvailable()).toBe(true);
+  });
+});
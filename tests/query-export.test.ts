@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getDataSource, type QueryRow } from '@/lib/database/data-source';
+import { planExport, readQueryPages } from '@/lib/database/query-export';
+import { createQueryCursor, readQueryCursor } from '@/lib/database/query-pages';
+
+async function readAll(sqlQuery: string, pageSize: number): Promise<QueryRow[]> {
+  const rows: QueryRow[] = [];
+  for await (const page of readQueryPages(planExport(sqlQuery), pageSize)) {
+    rows.push(...page);
+  }
+  return rows;
+}
+
+async function runQuery(sqlQuery: string): Promise<QueryRow[]> {
+  const dataSource = await getDataSource();
+  const { data, error } = await dataSource.executeReadQuery(sqlQuery);
+  expect(error).toBeNull();
+  return data ?? [];
+}
+
+describe('CSV export paging', () => {
+  it('pages unordered row-level queries by payment key', async () => {
+    const plan = planExport('SELECT p."Amount" FROM "payments" p');
+    const rows = await readAll('SELECT p."Amount" FROM "payments" p', 100);
+
+    expect(plan.mode).toBe('keyset');
+    expect(rows).toHaveLength(349);
+    expect(Object.keys(rows[0])).toEqual(['Amount']);
+  });
+
+  it("keeps a row-level query's ORDER BY across pages", async () => {
+    const sqlQuery = 'SELECT p."key", p."Amount" FROM "payments" p ORDER BY p."Amount" DESC';
+    const rows = await readAll(sqlQuery, 50);
+
+    expect(planExport(sqlQuery).mode).toBe('ordered');
+    expect(rows).toHaveLength(349);
+    const amounts = rows.map(row => Number(row.Amount));
+    expect(amounts).toEqual([...amounts].sort((a, b) => b - a));
+    // The key tiebreaker keeps tied amounts from repeating or going missing between pages
+    expect(new Set(rows.map(row => row.key)).size).toBe(349);
+  });
+
+  it('exports a top-N query in its own order and stops at its LIMIT', async () => {
+    const sqlQuery = `SELECT p."Payee_id", SUM(p."Amount") AS total
+FROM "payments" p
+GROUP BY p."Payee_id"
+ORDER BY total DESC
+LIMIT 5`;
+    const rows = await readAll(sqlQuery, 2);
+
+    expect(rows).toEqual(await runQuery(sqlQuery));
+    expect(rows).toHaveLength(5);
+  });
+
+  it('orders queries without an ORDER BY by every output column', async () => {
+    const sqlQuery = 'SELECT p."Agency_CD", COUNT(*) AS payment_count FROM "payments" p GROUP BY p."Agency_CD"';
+
+    expect(planExport(sqlQuery).mode).toBe('offset');
+    expect((await readAll(sqlQuery, 2)).map(row => row.Agency_CD)).toEqual([529, 601, 720]);
+  });
+});
+
+describe('download tokens', () => {
+  it('are not accepted as query page cursors, nor the other way round', () => {
+    const sqlQuery = 'SELECT p."Amount" FROM "payments" p';
+    const token = createQueryCursor(sqlQuery, 0, 100, 'export');
+    const cursor = createQueryCursor(sqlQuery, 0, 100);
+
+    expect(readQueryCursor(token, 'export').sqlQuery).toBe(sqlQuery);
+    expect(() => readQueryCursor(token)).toThrow('Not a query page cursor');
+    expect(() => readQueryCursor(cursor, 'export')).toThrow('Not a download token');
+  });
+});
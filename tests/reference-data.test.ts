@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getDataSource, type DataSource } from '@/lib/database/data-source';
+import { getReferenceData, hasReferenceSnapshot, reloadReferenceData } from '@/lib/database/reference-data';
+import { withDataSource } from './helpers';
+
+// The database as it looks when the code tables can't be read
+function withoutReferenceTables(source: DataSource): DataSource {
+  return {
+    name: source.name,
+    executeReadQuery: sqlQuery => source.executeReadQuery(sqlQuery),
+    explainQuery: sqlQuery => source.explainQuery(sqlQuery),
+    searchPayees: (searchTerm, limit) => source.searchPayees(searchTerm, limit),
+    fetchReferenceTable: async table => ({ data: null, error: { message: `relation "${table}" does not exist` } })
+  };
+}
+
+describe('reference data', () => {
+  afterEach(async () => {
+    await reloadReferenceData();
+  });
+
+  it('falls back to committed snapshots and reports tables without one as unavailable', async () => {
+    expect(hasReferenceSnapshot('agencyCodes')).toBe(true);
+    expect(hasReferenceSnapshot('fundCodes')).toBe(false);
+
+    const referenceData = await withDataSource(withoutReferenceTables(await getDataSource()), reloadReferenceData);
+
+    expect(referenceData.origin('agencyCodes')).toBe('snapshot');
+    expect(referenceData.findByCode('agencyCodes', 601)?.name).toBe('Texas Department of Transportation');
+    expect(referenceData.origin('fundCodes')).toBe('unavailable');
+    expect(referenceData.isAvailable('fundCodes')).toBe(false);
+    expect(referenceData.summary().find(table => table.table === 'fundCodes'))
+      .toMatchObject({ origin: 'unavailable', rowCount: 0, loadError: 'relation "fundCodes" does not exist' });
+  });
+
+  it('does not report every row as added when no snapshot has been committed', async () => {
+    const referenceData = await getReferenceData();
+    const fundDiff = referenceData.diff().find(diff => diff.table === 'fundCodes');
+
+    expect(referenceData.entries('fundCodes').length).toBeGreaterThan(0);
+    expect(fundDiff).toEqual({ table: 'fundCodes', origin: 'database', hasSnapshot: false, added: [], removed: [], renamed: [] });
+    expect(referenceData.diff().find(diff => diff.table === 'agencyCodes')?.hasSnapshot).toBe(true);
+  });
+});
@@ -0,0 +1,13 @@
+import path from 'path';
+import { setDataSource } from '@/lib/database/data-source';
+import { LocalDataSource } from '@/lib/database/local-data-source';
+
+// Every test runs against the committed snapshot in tests/fixtures/local-data
+export const FIXTURE_DATA_DIR = path.resolve(__dirname, 'fixtures/local-data');
+
+process.env.DATA_SOURCE = 'local';
+process.env.LOCAL_DATA_DIR = FIXTURE_DATA_DIR;
+process.env.DATASET_VERSION = 'fixture';
+process.env.QUERY_CURSOR_SECRET = 'test-cursor-secret';
+
+setDataSource(new LocalDataSource(FIXTURE_DATA_DIR));
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnalyticsSql, type SqlRejectionCode } from '@/lib/database/sql-validator';
+
+function rejectionCodes(sqlQuery: string): SqlRejectionCode[] {
+  return validateAnalyticsSql(sqlQuery).rejections.map(rejection => rejection.code);
+}
+
+describe('validateAnalyticsSql', () => {
+  it('accepts a SELECT over the schema', () => {
+    const result = validateAnalyticsSql(`WITH totals AS (
+  SELECT p."Agency_CD", SUM(p."Amount") AS total FROM "payments" p GROUP BY p."Agency_CD"
+)
+SELECT ac."Agency_Name", t.total FROM totals t JOIN "agencyCodes" ac ON ac."Agency_CD" = t."Agency_CD" ORDER BY t.total DESC`);
+
+    expect(result.rejections).toEqual([]);
+    expect(result.tables).toEqual(expect.arrayContaining(['payments', 'agencyCodes']));
+  });
+
+  it.each<[string, string, SqlRejectionCode]>([
+    ['empty queries', '  ', 'EMPTY_QUERY'],
+    ['FOR UPDATE', 'SELECT p."Amount" FROM "payments" p FOR UPDATE', 'PARSE_ERROR'],
+    ['a DELETE with RETURNING inside a CTE', 'WITH d AS (DELETE FROM "payments" RETURNING *) SELECT * FROM d', 'PARSE_ERROR'],
+    ['multiple statements', 'SELECT p."Amount" FROM "payments" p; SELECT p."key" FROM "payments" p', 'MULTIPLE_STATEMENTS'],
+    ['anything but SELECT', 'DELETE FROM "payments"', 'NOT_SELECT'],
+    ['a DELETE inside a CTE', 'WITH d AS (DELETE FROM "payments") SELECT 1', 'DATA_MODIFYING_CTE'],
+    ['an UPDATE inside a CTE', 'WITH d AS (UPDATE "payments" SET "Amount" = 0 RETURNING "key") SELECT * FROM d', 'DATA_MODIFYING_CTE'],
+    ['SELECT INTO', 'SELECT "Amount" INTO newtab FROM "payments"', 'SELECT_INTO'],
+    ['SELECT INTO in a subquery', 'SELECT * FROM (SELECT "Amount" INTO newtab FROM "payments") x', 'SELECT_INTO'],
+    ['pg_sleep', 'SELECT pg_sleep(10)', 'FUNCTION_NOT_ALLOWED'],
+    ['pg_catalog tables', 'SELECT * FROM pg_catalog.pg_tables', 'UNKNOWN_TABLE'],
+    ['a UNION with pg_shadow', 'SELECT p."Amount" FROM "payments" p UNION SELECT passwd FROM pg_shadow', 'UNKNOWN_TABLE'],
+    ['unknown columns', 'SELECT p."Total" FROM "payments" p', 'UNKNOWN_COLUMN'],
+    ['unquoted mixed-case columns', 'SELECT p.Amount FROM "payments" p', 'UNQUOTED_IDENTIFIER'],
+    ['unquoted mixed-case tables', 'SELECT ac."Agency_Name" FROM agencyCodes ac', 'UNQUOTED_IDENTIFIER']
+  ])('rejects %s', (_, sqlQuery, code) => {
+    const result = validateAnalyticsSql(sqlQuery);
+
+    expect(result.isValid).toBe(false);
+    expect(rejectionCodes(sqlQuery)).toContain(code);
+  });
+
+  it('names the offending table or function', () => {
+    const [rejection] = validateAnalyticsSql('SELECT * FROM pg_catalog.pg_tables').rejections;
+
+    expect(rejection).toMatchObject({ target: 'pg_tables' });
+    expect(validateAnalyticsSql('SELECT pg_sleep(10)').rejections[0]).toMatchObject({ target: 'PG_SLEEP' });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getDataSource } from '@/lib/database/data-source';
+import { compileQuerySpec } from '@/lib/database/query-spec';
+import { buildVendorClusters, vendorClustersAvailable } from '@/lib/database/vendor-clusters';
+import { withDataSource, withoutPayeeRows, withoutTables } from './helpers';
+
+async function vendorTotals(vendorClusters: boolean, filters = {}) {
+  const { sqlQuery } = compileQuerySpec({ dimensions: ['vendor'], measures: ['sum'], filters }, {}, { vendorClusters });
+  const { data, error } = await (await getDataSource()).executeReadQuery(sqlQuery);
+  expect(error, sqlQuery).toBeNull();
+  return data ?? [];
+}
+
+describe('vendor clusters', () => {
+  it('merges company spellings but keeps individuals apart', async () => {
+    const { rows, unclusteredPayeeCount } = await buildVendorClusters();
+    const vendorOf = (payeeId: number) => rows.find(row => row.Payee_id === payeeId)?.Vendor_id;
+
+    expect(vendorOf(12)).toBe(vendorOf(10));
+    expect(vendorOf(14)).toBe(13);
+    expect(rows.find(row => row.Payee_id === 14)).toMatchObject({ Vendor_Name: 'H E B GROCERY CO', Vendor_Key: 'HEB' });
+    // Two people called John Smith and the pooled "Confidential" payee
+    expect(vendorOf(18)).toBe(18);
+    expect(vendorOf(21)).toBe(21);
+    expect(vendorOf(11)).toBe(11);
+    expect(unclusteredPayeeCount).toBe(3);
+  });
+
+  it('matches the committed fixture, which the build script wrote', async () => {
+    const { rows } = await buildVendorClusters();
+    const { data } = await (await getDataSource()).executeReadQuery('SELECT * FROM "payeeVendorClusters" ORDER BY "Payee_id"');
+
+    expect(data?.map(row => ({ ...row, Payee_id: Number(row.Payee_id), Vendor_id: Number(row.Vendor_id) })))
+      .toEqual([...rows].sort((a, b) => a.Payee_id - b.Payee_id));
+  });
+
+  it('counts payees missing from the cluster table as their own vendor', async () => {
+    const { data } = await (await getDataSource()).executeReadQuery('SELECT SUM("Amount") AS total FROM "payments"');
+
+    await withDataSource(withoutPayeeRows(await getDataSource(), 'payeeVendorClusters', [16, 17, 20]), async () => {
+      const rows = await vendorTotals(true);
+
+      expect(rows.reduce((sum, row) => sum + Number(row.total_amount), 0)).toBeCloseTo(Number(data?.[0].total));
+      expect(rows.map(row => row.vendor_name)).toContain('City of Austin');
+      expect(rows.filter(row => row.vendor_name === 'Dell Inc.')).toHaveLength(1);
+    });
+  });
+
+  it('groups vendors by payee until the cluster table is built', async () => {
+    const source = withoutTables(await getDataSource(), ['payeeVendorClusters']);
+
+    await withDataSource(source, async () => {
+      expect(await vendorClustersAvailable()).toBe(false);
+
+      const rows = await vendorTotals(false);
+      expect(rows.map(row => row.vendor_name)).toEqual(expect.arrayContaining(['Dell Inc.', 'DELL MARKETING LP']));
+
+      const filtered = await vendorTotals(false, { vendorIds: [10] });
+      expect(filtered.map(row => row.vendor_id)).toEqual([10]);
+    });
+    expect(await vendorClustersAvailable()).toBe(true);
+  });
+});